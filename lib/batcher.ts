@@ -0,0 +1,115 @@
+import { MongoBulkWriteError, ObjectId } from "mongodb";
+import type { Collection, Document } from "mongodb";
+
+const debug = require("debug")("socket.io-mongo-adapter");
+
+export interface BatchingOptions {
+  /**
+   * The maximum number of ms a document waits before being inserted
+   * @default 2
+   */
+  maxDelay: number;
+  /**
+   * The maximum number of documents per insertMany() call
+   * @default 100
+   */
+  maxSize: number;
+}
+
+interface PendingInsert {
+  document: Document;
+  resolve: (id: ObjectId) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Coalesces the documents inserted within a small window into a single insertMany() call.
+ *
+ * The documents are inserted in order, and at most one insertMany() call is in flight at any given time, so the
+ * documents are written in the order of the insert() calls.
+ */
+export class InsertBatcher {
+  private readonly maxDelay: number;
+  private readonly maxSize: number;
+  private queue: PendingInsert[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private isFlushing = false;
+
+  constructor(
+    private readonly collection: Collection,
+    opts: Partial<BatchingOptions> = {}
+  ) {
+    this.maxDelay = opts.maxDelay ?? 2;
+    this.maxSize = opts.maxSize || 100;
+  }
+
+  /**
+   * Queues the document for insertion.
+   *
+   * @param document - the document to insert
+   * @return the ID of the document, which is generated before the insertion so that its offset is known
+   */
+  public insert(document: Document): Promise<ObjectId> {
+    // the ID is kept when the insertion is retried
+    document._id = document._id || new ObjectId();
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ document, resolve, reject });
+
+      if (this.queue.length >= this.maxSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.maxDelay);
+      }
+    });
+  }
+
+  /**
+   * Inserts the queued documents right away (unless a previous batch is still in flight).
+   */
+  public flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.isFlushing || this.queue.length === 0) {
+      return;
+    }
+
+    const batch = this.queue.splice(0, this.maxSize);
+    this.isFlushing = true;
+
+    debug("inserting a batch of %d documents", batch.length);
+
+    this.collection
+      .insertMany(
+        batch.map(({ document }) => document),
+        { ordered: true }
+      )
+      .then(
+        () => {
+          batch.forEach(({ document, resolve }) => resolve(document._id));
+        },
+        (err) => {
+          // with an ordered insert, the documents before the first error are inserted
+          const insertedCount =
+            err instanceof MongoBulkWriteError ? err.insertedCount : 0;
+          batch.forEach(({ document, resolve, reject }, i) => {
+            if (i < insertedCount) {
+              resolve(document._id);
+            } else {
+              reject(err);
+            }
+          });
+        }
+      )
+      .then(() => {
+        this.isFlushing = false;
+        if (this.queue.length >= this.maxSize) {
+          this.flush();
+        } else if (this.queue.length > 0 && !this.timer) {
+          this.timer = setTimeout(() => this.flush(), this.maxDelay);
+        }
+      });
+  }
+}
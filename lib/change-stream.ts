@@ -0,0 +1,386 @@
+import { EventEmitter } from "events";
+import { MongoServerError } from "mongodb";
+import type {
+  ChangeStream,
+  ChangeStreamOptions,
+  Collection,
+  Document,
+  ResumeToken,
+} from "mongodb";
+import type { MongoAdapterOptions } from "./index";
+import type { ResumeTokenStore } from "./resume-token-store";
+import type { Metrics } from "./metrics";
+
+const debug = require("debug")("socket.io-mongo-adapter");
+
+export type ChangeStreamStatus =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed"
+  | "closed";
+
+export interface HealthCheckResult {
+  /**
+   * Whether the change stream is currently open
+   */
+  healthy: boolean;
+  status: ChangeStreamStatus;
+  lastEventAt: Date | undefined;
+  reconnections: number;
+}
+
+/**
+ * Manages the change stream shared by all the namespaces stored in a given collection, and reopens it when it gets
+ * closed.
+ *
+ * Emitted events:
+ *
+ * - "changeStreamError" (err): the change stream has encountered an error
+ * - "changeStreamResumed" (): the change stream was successfully reopened
+ * - "resumeTokenLost" (): the resume token is no longer valid, so some events might have been missed
+ * - "reconnectFailed" (): the change stream could not be reopened after `reconnectionAttempts` attempts
+ */
+export class ChangeStreamHandle extends EventEmitter {
+  /**
+   * The current status of the change stream
+   */
+  public status: ChangeStreamStatus = "closed";
+  /**
+   * The date of the last event received from the change stream
+   */
+  public lastEventAt: Date | undefined;
+  /**
+   * The token of the last event received from the change stream
+   */
+  public lastResumeToken: ResumeToken | undefined;
+  /**
+   * The number of attempts to reopen the change stream
+   */
+  public reconnections = 0;
+
+  private readonly uid: string;
+  private readonly resumeTokenKey: string;
+  private readonly reconnectionDelay: number;
+  private readonly reconnectionDelayMax: number;
+  private readonly randomizationFactor: number;
+  private readonly reconnectionAttempts: number;
+  private readonly resumeTokenStore: ResumeTokenStore | undefined;
+  private readonly resumeTokenSaveInterval: number;
+  private readonly metrics: Metrics | undefined;
+  private changeStream: ChangeStream | undefined;
+  private changeStreamOpts: ChangeStreamOptions;
+  /**
+   * The namespaces served by this node, whose events are received
+   */
+  private namespaces: string[] = [];
+  private isUpdatePending = false;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private saveTimer: NodeJS.Timeout | undefined;
+  /**
+   * Whether the token persisted by a previous process was already loaded
+   */
+  private isTokenLoaded = false;
+  /**
+   * The token which was last persisted in the store
+   */
+  private savedResumeToken: ResumeToken | undefined;
+  /**
+   * The number of consecutive attempts since the last successful opening
+   */
+  private attempts = 0;
+
+  constructor(
+    private readonly collection: Collection,
+    opts: Partial<MongoAdapterOptions>,
+    private readonly onInsert: (event: Document) => void,
+    resumeTokenKey?: string
+  ) {
+    super();
+    this.uid = opts.uid!;
+    this.resumeTokenKey = resumeTokenKey || this.uid;
+    this.reconnectionDelay = opts.reconnectionDelay ?? 1000;
+    this.reconnectionDelayMax = opts.reconnectionDelayMax ?? 5000;
+    this.randomizationFactor = opts.randomizationFactor ?? 0.5;
+    this.reconnectionAttempts = opts.reconnectionAttempts ?? Infinity;
+    this.resumeTokenStore = opts.resumeTokenStore;
+    this.resumeTokenSaveInterval = opts.resumeTokenSaveInterval || 1000;
+    this.metrics = opts.metrics;
+    this.changeStreamOpts = { ...opts.changeStreamOptions };
+  }
+
+  public open() {
+    if (this.status !== "closed" && this.status !== "failed") {
+      return;
+    }
+    this.status = "connecting";
+    this.attempts = 0;
+    if (this.resumeTokenStore) {
+      this.scheduleSave();
+    }
+    if (this.resumeTokenStore && !this.isTokenLoaded) {
+      this.isTokenLoaded = true;
+      this.loadResumeToken(this.resumeTokenStore).then(() =>
+        this.initChangeStream()
+      );
+    } else {
+      this.initChangeStream();
+    }
+  }
+
+  public async close() {
+    this.status = "closed";
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    const changeStream = this.changeStream;
+    this.changeStream = undefined;
+    if (changeStream) {
+      changeStream.removeAllListeners("close");
+      await changeStream.close();
+    }
+    await this.saveResumeToken();
+  }
+
+  /**
+   * Updates the namespaces whose events are received, and reopens the change stream with the new filter.
+   *
+   * @param namespaces - the names of the namespaces served by this node
+   */
+  public setNamespaces(namespaces: string[]) {
+    this.namespaces = namespaces;
+    if (!this.changeStream || this.isUpdatePending) {
+      return;
+    }
+    // the namespaces created synchronously (for example upon startup) are handled at once
+    this.isUpdatePending = true;
+    process.nextTick(() => {
+      this.isUpdatePending = false;
+      this.updateChangeStream();
+    });
+  }
+
+  /**
+   * Returns the health of the change stream, for example for a readiness probe.
+   */
+  public healthCheck(): HealthCheckResult {
+    return {
+      healthy: this.status === "connected",
+      status: this.status,
+      lastEventAt: this.lastEventAt,
+      reconnections: this.reconnections,
+    };
+  }
+
+  private async loadResumeToken(store: ResumeTokenStore) {
+    if (
+      this.changeStreamOpts.resumeAfter ||
+      this.changeStreamOpts.startAfter ||
+      this.changeStreamOpts.startAtOperationTime
+    ) {
+      // the starting point provided by the user takes precedence
+      return;
+    }
+    try {
+      const token = await store.load(this.resumeTokenKey);
+      if (token) {
+        debug("resuming the change stream from the persisted token");
+        this.changeStreamOpts.resumeAfter = token;
+        this.savedResumeToken = token;
+      }
+    } catch (e) {
+      debug("error while loading the resume token: %s", (e as Error).message);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setInterval(
+      () => this.saveResumeToken(),
+      this.resumeTokenSaveInterval
+    );
+  }
+
+  private async saveResumeToken() {
+    const token = this.lastResumeToken;
+    if (!this.resumeTokenStore || !token || token === this.savedResumeToken) {
+      return;
+    }
+    try {
+      await this.resumeTokenStore.save(this.resumeTokenKey, token);
+      this.savedResumeToken = token;
+    } catch (e) {
+      debug("error while saving the resume token: %s", (e as Error).message);
+    }
+  }
+
+  private initChangeStream() {
+    if (
+      this.status === "closed" ||
+      this.status === "failed" ||
+      (this.changeStream && !this.changeStream.closed)
+    ) {
+      return;
+    }
+    debug("opening change stream");
+    // the new change stream uses the current namespaces, so there is no need to wait for the previous one
+    this.isUpdatePending = false;
+    const changeStream = this.collection.watch(
+      this.pipeline(),
+      this.changeStreamOpts
+    );
+    this.changeStream = changeStream;
+
+    changeStream.on("init", () => {
+      this.attempts = 0;
+      if (this.status === "reconnecting") {
+        debug("change stream was resumed");
+        this.status = "connected";
+        this.emit("changeStreamResumed");
+      } else {
+        this.status = "connected";
+      }
+    });
+
+    changeStream.on("change", (event: any) => {
+      if (event.operationType === "insert") {
+        this.changeStreamOpts.resumeAfter = changeStream.resumeToken;
+        this.lastResumeToken = changeStream.resumeToken;
+        this.lastEventAt = new Date();
+        this.onInsert(event);
+      }
+    });
+
+    changeStream.on("error", (err: Error) => {
+      debug("change stream encountered an error: %s", err.message);
+      this.emit("changeStreamError", err);
+      if (
+        err instanceof MongoServerError &&
+        !err.hasErrorLabel("ResumableChangeStreamError")
+      ) {
+        // the resume token was not found in the oplog
+        if (this.changeStreamOpts.resumeAfter) {
+          this.emit("resumeTokenLost");
+        }
+        delete this.changeStreamOpts.resumeAfter;
+      }
+    });
+
+    changeStream.on("close", () => {
+      if (this.attempts >= this.reconnectionAttempts) {
+        debug(
+          "change stream was closed, giving up after %d attempts",
+          this.attempts
+        );
+        this.status = "failed";
+        this.emit("reconnectFailed");
+        return;
+      }
+      const delay = this.reconnectionDelayFor(this.attempts);
+      debug("change stream was closed, reconnecting in %d ms", delay);
+      this.status = "reconnecting";
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = undefined;
+        this.attempts++;
+        this.reconnections++;
+        this.metrics?.onChangeStreamReconnect();
+        this.initChangeStream();
+      }, delay);
+    });
+  }
+
+  /**
+   * Reopens the change stream from its current position, so that no event is missed or received twice.
+   *
+   * @private
+   */
+  private updateChangeStream() {
+    const changeStream = this.changeStream;
+    if (!changeStream || changeStream.closed || this.status === "closed") {
+      // the filter will be applied upon reconnection
+      return;
+    }
+    if (changeStream.resumeToken) {
+      this.changeStreamOpts.resumeAfter = changeStream.resumeToken;
+    } else if (
+      !this.changeStreamOpts.resumeAfter &&
+      !this.changeStreamOpts.startAfter &&
+      !this.changeStreamOpts.startAtOperationTime
+    ) {
+      // the change stream is not initialized yet, and a new one would only receive the events inserted after its own
+      // initialization
+      debug("waiting for the change stream to be initialized");
+      this.isUpdatePending = true;
+      changeStream.once("init", () => {
+        this.isUpdatePending = false;
+        this.updateChangeStream();
+      });
+      return;
+    }
+    debug("updating the filter of the change stream");
+    this.changeStream = undefined;
+    // the errors of the previous change stream must not affect the new one
+    changeStream.removeAllListeners();
+    changeStream.on("error", (err: Error) => {
+      debug("previous change stream encountered an error: %s", err.message);
+    });
+    changeStream.close().catch((err) => {
+      debug("error while closing the change stream: %s", err.message);
+    });
+    this.initChangeStream();
+  }
+
+  /**
+   * Returns the pipeline of the change stream: a node only receives the events of the namespaces it serves, and the
+   * responses to its own requests.
+   *
+   * @private
+   */
+  private pipeline() {
+    return [
+      {
+        $match: {
+          operationType: "insert",
+          "fullDocument.uid": {
+            $ne: this.uid, // ignore events from self
+          },
+          $or: [
+            {
+              "fullDocument.target": this.uid,
+            },
+            {
+              "fullDocument.target": { $exists: false },
+              "fullDocument.nsp": { $in: this.namespaces },
+            },
+          ],
+        },
+      },
+      {
+        $project: {
+          documentKey: 0,
+          ns: 0,
+        },
+      },
+    ];
+  }
+
+  /**
+   * Computes the delay before the next attempt (exponential backoff with jitter), so that the nodes of the cluster do
+   * not try to reconnect in lockstep.
+   *
+   * @param attempts - the number of previous attempts
+   * @private
+   */
+  private reconnectionDelayFor(attempts: number) {
+    let delay = this.reconnectionDelay * Math.pow(2, attempts);
+    delay += (Math.random() * 2 - 1) * this.randomizationFactor * delay;
+    return Math.floor(Math.min(delay, this.reconnectionDelayMax));
+  }
+}
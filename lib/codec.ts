@@ -0,0 +1,389 @@
+import { BSON, Binary } from "mongodb";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from "crypto";
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  deflateSync,
+  gunzipSync,
+  gzipSync,
+  inflateSync,
+} from "zlib";
+
+const debug = require("debug")("socket.io-mongo-adapter");
+
+export type CompressionAlgorithm = "gzip" | "deflate" | "brotli";
+
+export interface CompressionOptions {
+  /**
+   * The compression algorithm
+   * @default "gzip"
+   */
+  algorithm: CompressionAlgorithm;
+  /**
+   * The minimum size of the payload (once serialized), in bytes, above which it is compressed
+   * @default 1024
+   */
+  threshold: number;
+}
+
+export interface EncryptionOptions {
+  /**
+   * The AES-256 keys (32 bytes each), indexed by their ID. The previous keys must be kept as long as the documents they
+   * have encrypted may be read (missed packets, sessions, ...).
+   */
+  keys: Record<string, Buffer>;
+  /**
+   * The ID of the key which is used to encrypt the new documents
+   */
+  currentKeyId: string;
+  /**
+   * The key which is used to hash the private session IDs (at least 32 bytes), since they must be stored unencrypted in
+   * order to be queried. Unlike the encryption keys, it cannot be rotated without losing the pending sessions.
+   */
+  pidHashKey: Buffer;
+}
+
+export interface CodecOptions {
+  compression?: Partial<CompressionOptions>;
+  serializer?: Serializer;
+  encryption?: EncryptionOptions;
+}
+
+/**
+ * The attributes of the data which are kept as is, since they are used in the MongoDB queries (see restoreSession())
+ */
+const CLEAR_ATTRIBUTES = ["opts", "requestId", "pid"];
+
+/**
+ * The attribute of the data which contains the encoded payload
+ */
+const ENCODED_ATTRIBUTE = "encoded";
+
+const compressors: Record<CompressionAlgorithm, (buf: Buffer) => Buffer> = {
+  gzip: (buf) => gzipSync(buf),
+  deflate: (buf) => deflateSync(buf),
+  brotli: (buf) => brotliCompressSync(buf),
+};
+
+const decompressors: Record<CompressionAlgorithm, (buf: Buffer) => Buffer> = {
+  gzip: (buf) => gunzipSync(buf),
+  deflate: (buf) => inflateSync(buf),
+  brotli: (buf) => brotliDecompressSync(buf),
+};
+
+const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Checks the encryption options upon startup, instead of failing when the first document is published.
+ *
+ * @param opts - the encryption options
+ */
+export function checkEncryptionOptions(opts: EncryptionOptions) {
+  if (!opts.keys[opts.currentKeyId]) {
+    throw new Error(`unknown encryption key: ${opts.currentKeyId}`);
+  }
+  if (!opts.pidHashKey || opts.pidHashKey.length < KEY_LENGTH) {
+    throw new Error(
+      `invalid private session ID hash key (expected at least ${KEY_LENGTH} bytes)`
+    );
+  }
+  for (const keyId of Object.keys(opts.keys)) {
+    if (opts.keys[keyId].length !== KEY_LENGTH) {
+      throw new Error(
+        `invalid encryption key: ${keyId} (expected ${KEY_LENGTH} bytes)`
+      );
+    }
+  }
+}
+
+/**
+ * Returns the value of the private session ID which is stored in the documents: a keyed hash when the encryption is
+ * enabled, since it grants access to the session, and the ID itself otherwise.
+ *
+ * @param pid - the private session ID
+ * @param opts - the codec options
+ */
+export function hashPid(pid: string, opts: CodecOptions) {
+  if (!opts.encryption) {
+    return pid;
+  }
+  return createHmac("sha256", opts.encryption.pidHashKey)
+    .update(pid)
+    .digest("hex");
+}
+
+/**
+ * The encrypted payload is stored as: IV (12 bytes) + authentication tag (16 bytes) + ciphertext
+ */
+const encrypt = (buf: Buffer, key: Buffer) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(buf), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+};
+
+const decrypt = (buf: Buffer, key: Buffer) => {
+  const decipher = createDecipheriv(
+    ENCRYPTION_ALGORITHM,
+    key,
+    buf.subarray(0, IV_LENGTH)
+  );
+  decipher.setAuthTag(buf.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(buf.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+};
+
+const toBuffer = (value: any): Buffer => {
+  if (Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (value?._bsontype === "Binary") {
+    return Buffer.from(value.buffer.subarray(0, value.position));
+  }
+  return Buffer.from(value);
+};
+
+/**
+ * Serializes the payload of the documents, instead of relying on the BSON serialization of the MongoDB driver
+ */
+export interface Serializer {
+  /**
+   * The name of the serializer, which is stored in the documents. All the nodes of the cluster must use a serializer
+   * with the same name to be able to decode the documents.
+   */
+  name: string;
+  encode(data: any): Uint8Array;
+  decode(buffer: Buffer): any;
+}
+
+/**
+ * Uses the BSON format, with support for BigInt values (stored as 64-bit integers).
+ */
+export const bsonSerializer: Serializer = {
+  name: "bson",
+  encode(data) {
+    return BSON.serialize(data);
+  },
+  decode(buffer) {
+    return BSON.deserialize(buffer, {
+      promoteBuffers: true,
+      useBigInt64: true,
+    });
+  },
+};
+
+let msgpackOptions: any;
+
+const loadMsgpack = () => {
+  if (msgpackOptions) {
+    return msgpackOptions;
+  }
+  let msgpack: any;
+  try {
+    msgpack = require("@msgpack/msgpack");
+  } catch (e) {
+    throw new Error(
+      'the "@msgpack/msgpack" package must be installed to use the msgpack serializer'
+    );
+  }
+  const extensionCodec = new msgpack.ExtensionCodec();
+  msgpackOptions = {
+    encode: msgpack.encode,
+    decode: msgpack.decode,
+    extensionCodec,
+    useBigInt64: true,
+  };
+  extensionCodec.register({
+    type: 0,
+    encode: (value: unknown) =>
+      value instanceof Map ? msgpack.encode([...value], msgpackOptions) : null,
+    decode: (data: Uint8Array) => new Map(msgpack.decode(data, msgpackOptions)),
+  });
+  return msgpackOptions;
+};
+
+/**
+ * msgpack decodes binary values as Uint8Array objects, while Socket.IO expects Buffer objects.
+ */
+const replaceUint8ArraysByBuffers = (obj: any): any => {
+  if (obj instanceof Uint8Array) {
+    return Buffer.isBuffer(obj)
+      ? obj
+      : Buffer.from(obj.buffer, obj.byteOffset, obj.byteLength);
+  }
+  if (Array.isArray(obj)) {
+    for (let i = 0; i < obj.length; i++) {
+      obj[i] = replaceUint8ArraysByBuffers(obj[i]);
+    }
+  } else if (obj instanceof Map) {
+    obj.forEach((value, key) => {
+      obj.set(key, replaceUint8ArraysByBuffers(value));
+    });
+  } else if (obj && Object.getPrototypeOf(obj) === Object.prototype) {
+    for (const key of Object.keys(obj)) {
+      obj[key] = replaceUint8ArraysByBuffers(obj[key]);
+    }
+  }
+  return obj;
+};
+
+/**
+ * Uses the msgpack format, with support for Date, Map and BigInt values. Requires the "@msgpack/msgpack" package.
+ */
+export const msgpackSerializer: Serializer = {
+  name: "msgpack",
+  encode(data) {
+    const options = loadMsgpack();
+    return options.encode(data, options);
+  },
+  decode(buffer) {
+    const options = loadMsgpack();
+    return replaceUint8ArraysByBuffers(options.decode(buffer, options));
+  },
+};
+
+const resolveSerializer = (name: string, opts: CodecOptions): Serializer => {
+  if (opts.serializer?.name === name) {
+    return opts.serializer;
+  }
+  switch (name) {
+    case bsonSerializer.name:
+      return bsonSerializer;
+    case msgpackSerializer.name:
+      return msgpackSerializer;
+    default:
+      throw new Error(`unknown serializer: ${name}`);
+  }
+};
+
+/**
+ * Encodes the data of the document, if needed. The document is updated in place, but the initial data object is left
+ * untouched.
+ *
+ * Note: the serialization and the compression are synchronous, in order to preserve the order of the documents.
+ *
+ * @param document - the document to insert
+ * @param opts - the codec options
+ */
+export function encodeDocument(document: any, opts: CodecOptions) {
+  if (
+    (!opts.compression && !opts.serializer && !opts.encryption) ||
+    !document.data
+  ) {
+    return;
+  }
+
+  const clearData: Record<string, any> = {};
+  const payload: Record<string, any> = {};
+
+  for (const key of Object.keys(document.data)) {
+    if (key === "pid" && opts.encryption) {
+      // the hash is used in the queries, and the ID itself is restored upon decoding
+      clearData[key] = hashPid(document.data[key], opts);
+      payload[key] = document.data[key];
+    } else if (CLEAR_ATTRIBUTES.includes(key)) {
+      clearData[key] = document.data[key];
+    } else {
+      payload[key] = document.data[key];
+    }
+  }
+
+  const serializer = opts.serializer || bsonSerializer;
+  let encodedPayload = Buffer.from(serializer.encode(payload));
+  let compression: CompressionAlgorithm | undefined;
+
+  if (opts.compression) {
+    const algorithm = opts.compression.algorithm || "gzip";
+    const threshold = opts.compression.threshold ?? 1024;
+
+    if (encodedPayload.length >= threshold) {
+      const compressedPayload = compressors[algorithm](encodedPayload);
+
+      debug(
+        "payload compressed from %d to %d bytes",
+        encodedPayload.length,
+        compressedPayload.length
+      );
+
+      encodedPayload = compressedPayload;
+      compression = algorithm;
+    } else if (!opts.serializer && !opts.encryption) {
+      // no need to serialize the payload, the MongoDB driver will take care of it
+      return;
+    }
+  }
+
+  if (opts.encryption) {
+    const { keys, currentKeyId } = opts.encryption;
+    encodedPayload = encrypt(encodedPayload, keys[currentKeyId]);
+  }
+
+  clearData[ENCODED_ATTRIBUTE] = new Binary(encodedPayload);
+  document.data = clearData;
+  if (opts.serializer) {
+    document.serializer = opts.serializer.name;
+  }
+  if (compression) {
+    document.compression = compression;
+  }
+  if (opts.encryption) {
+    document.keyId = opts.encryption.currentKeyId;
+  }
+}
+
+/**
+ * Decodes the data of the document, if needed. Apart from custom serializers and encryption keys, this does not depend
+ * on the local options, so that the nodes of the cluster can be configured differently.
+ *
+ * @param document - the document which was read from the MongoDB collection
+ * @param opts - the codec options
+ */
+export function decodeDocument(document: any, opts: CodecOptions = {}) {
+  if (
+    (!document?.compression && !document?.serializer && !document?.keyId) ||
+    !document.data
+  ) {
+    return document;
+  }
+
+  const { [ENCODED_ATTRIBUTE]: encodedPayload, ...clearData } = document.data;
+  let buffer = toBuffer(encodedPayload);
+
+  if (document.keyId) {
+    const key = opts.encryption?.keys[document.keyId];
+    if (!key) {
+      throw new Error(`unknown encryption key: ${document.keyId}`);
+    }
+    buffer = decrypt(buffer, key);
+  }
+
+  if (document.compression) {
+    const decompress =
+      decompressors[document.compression as CompressionAlgorithm];
+    if (!decompress) {
+      throw new Error(`unknown compression algorithm: ${document.compression}`);
+    }
+    buffer = decompress(buffer);
+  }
+
+  const serializer = document.serializer
+    ? resolveSerializer(document.serializer, opts)
+    : bsonSerializer;
+
+  document.data = Object.assign(clearData, serializer.decode(buffer));
+  delete document.compression;
+  delete document.serializer;
+  delete document.keyId;
+
+  return document;
+}
@@ -4,13 +4,78 @@ import {
   PrivateSessionId,
   Room,
   Session,
+  SocketId,
 } from "socket.io-adapter";
 import { randomBytes } from "crypto";
+import { hostname } from "os";
 import { ObjectId, MongoServerError, WithId, Document } from "mongodb";
-import type { Collection, ChangeStream, ChangeStreamOptions } from "mongodb";
+import { BatchingOptions, InsertBatcher } from "./batcher";
+import { Outbox, PublishRetryOptions } from "./outbox";
+import { ChangeStreamHandle } from "./change-stream";
+import type { ChangeStreamStatus, HealthCheckResult } from "./change-stream";
+import { MongoResumeTokenStore } from "./resume-token-store";
+import { projectSocket } from "./projection";
+import { LeaderElection } from "./leader-election";
+import type { LeaderElectionOptions } from "./leader-election";
+import { PrometheusMetrics } from "./metrics";
+import { Tracing } from "./tracing";
+import type { TraceContext } from "./tracing";
+import type {
+  Metrics,
+  PendingRequests,
+  PrometheusMetricsOptions,
+} from "./metrics";
+import type { SocketProjection } from "./projection";
+import type { ResumeTokenStore } from "./resume-token-store";
+import {
+  bsonSerializer,
+  checkEncryptionOptions,
+  CodecOptions,
+  decodeDocument,
+  encodeDocument,
+  hashPid,
+  msgpackSerializer,
+} from "./codec";
+import type {
+  CompressionAlgorithm,
+  CompressionOptions,
+  EncryptionOptions,
+  Serializer,
+} from "./codec";
+import type {
+  Collection,
+  ChangeStreamOptions,
+  Db,
+  IndexDescription,
+} from "mongodb";
+
+export type {
+  BatchingOptions,
+  ChangeStreamStatus,
+  HealthCheckResult,
+  LeaderElectionOptions,
+  Metrics,
+  PendingRequests,
+  PrometheusMetricsOptions,
+  CompressionAlgorithm,
+  CompressionOptions,
+  EncryptionOptions,
+  PublishRetryOptions,
+  ResumeTokenStore,
+  Serializer,
+  SocketProjection,
+};
+export {
+  bsonSerializer,
+  msgpackSerializer,
+  ChangeStreamHandle,
+  MongoResumeTokenStore,
+  PrometheusMetrics,
+};
 
 const randomId = () => randomBytes(8).toString("hex");
 const debug = require("debug")("socket.io-mongo-adapter");
+const { version } = require("../package.json");
 
 /**
  * Event types, for messages between nodes
@@ -30,6 +95,16 @@ enum EventType {
   BROADCAST_CLIENT_COUNT,
   BROADCAST_ACK,
   SESSION,
+  NODE_LEAVE,
+  SOCKETS_COUNT,
+  SOCKETS_COUNT_RESPONSE,
+  ALL_ROOMS,
+  ALL_ROOMS_RESPONSE,
+  REMOTE_JOIN,
+  REMOTE_LEAVE,
+  REMOTE_UPDATE_DATA,
+  REMOTE_EMIT,
+  REMOTE_OPERATION_RESPONSE,
 }
 
 /**
@@ -48,6 +123,11 @@ interface AdapterEvent {
    * The namespace
    */
   nsp?: string;
+  /**
+   * The UID of the server which has sent the request (for the responses), or the UIDs of the addressed servers. The
+   * other servers do not receive the document (see ChangeStreamHandle).
+   */
+  target?: string | string[];
   /**
    * The date of creation of the event, to be able to manually clean up the collection.
    *
@@ -58,6 +138,30 @@ interface AdapterEvent {
    * Some additional data, depending on the event type
    */
   data?: any;
+  /**
+   * The compression algorithm of the data, if any
+   *
+   * @see MongoAdapterOptions.compression
+   */
+  compression?: CompressionAlgorithm;
+  /**
+   * The name of the serializer of the data, if any
+   *
+   * @see MongoAdapterOptions.serializer
+   */
+  serializer?: string;
+  /**
+   * The ID of the key which was used to encrypt the data, if any
+   *
+   * @see MongoAdapterOptions.encryption
+   */
+  keyId?: string;
+  /**
+   * The trace context of the publish span, if tracing is enabled
+   *
+   * @see MongoAdapterOptions.tracing
+   */
+  traceContext?: TraceContext;
 }
 
 interface Request {
@@ -67,14 +171,93 @@ interface Request {
   expected: number;
   current: number;
   responses: any[];
+  /**
+   * The UIDs of the nodes which have not responded yet
+   */
+  pendingUids: Set<string>;
+  /**
+   * The UIDs of the nodes which were considered down before sending their response
+   */
+  missingUids: string[];
+  /**
+   * The UIDs of the nodes which have sent their response
+   */
+  respondedUids: string[];
+  /**
+   * The span of the request, if tracing is enabled
+   */
+  span?: any;
 }
 
+/**
+ * The responses of a request which was completed without the responses of some nodes
+ */
+export type PartialResponses<T> = T[] & {
+  /**
+   * The UIDs of the nodes which have sent their response
+   */
+  respondedNodes: string[];
+  /**
+   * The UIDs of the nodes which have not sent their response (considered down or timed out)
+   */
+  missingNodes: string[];
+};
+
 interface AckRequest {
   type: EventType.BROADCAST;
   clientCountCallback: (clientCount: number) => void;
   ack: (...args: any[]) => void;
 }
 
+/**
+ * The metadata of a node, included in its heartbeats
+ */
+export interface NodeMetadata {
+  /**
+   * The hostname of the server
+   */
+  hostname: string;
+  /**
+   * The ID of the Node.js process
+   */
+  pid: number;
+  /**
+   * The date of creation of the adapter, in milliseconds since the epoch
+   */
+  startedAt: number;
+  /**
+   * The version of the adapter
+   */
+  version: string;
+  /**
+   * The namespaces served by the server
+   */
+  namespaces: string[];
+  /**
+   * The number of sockets connected to the namespace on this server
+   */
+  socketsCount: number;
+}
+
+/**
+ * A member of the cluster
+ */
+export interface ClusterNode {
+  /**
+   * The UID of the node
+   */
+  uid: string;
+  /**
+   * The timestamp of the last message received from the node
+   */
+  lastSeen: number;
+  /**
+   * The metadata of the node, which is only available once a heartbeat was received (and might be missing with older
+   * versions of the adapter)
+   */
+  metadata?: NodeMetadata;
+}
+
 /**
  * UID of an emitter using the `@socket.io/mongo-emitter` package
  */
@@ -101,6 +284,42 @@ export interface MongoAdapterOptions {
    * @default 10000
    */
   heartbeatTimeout: number;
+  /**
+   * Number of ms between two checks of the nodes which have not responded yet to a pending request. The request is
+   * completed as soon as all these nodes are considered down.
+   * @default 1000
+   */
+  livenessCheckInterval: number;
+  /**
+   * Whether fetchSockets() should resolve with the sockets received so far when the requestsTimeout is reached,
+   * instead of rejecting. In that case, the result includes the `respondedNodes` and `missingNodes` attributes.
+   *
+   * @see PartialResponses
+   * @default false
+   */
+  fetchSocketsPartialResults: boolean;
+  /**
+   * Whether the broadcasts received from the other nodes should be ignored when none of the local sockets is in the
+   * target rooms, instead of being handled by the in-memory adapter. Useful with thousands of rooms spread across
+   * the nodes.
+   * @default false
+   */
+  filterBroadcastsByRoom: boolean;
+  /**
+   * The attributes of the remote sockets to include in the responses to a fetchSockets() request, when the caller does
+   * not provide its own projection.
+   *
+   * @see MongoAdapter.fetchSockets
+   */
+  fetchSocketsProjection?: SocketProjection;
+  /**
+   * The paths of the attributes of the sockets which are never written in the collection by this node in response to a
+   * fetchSockets() request, for example ["handshake.headers.cookie", "handshake.auth.token"].
+   *
+   * The local sockets returned by fetchSockets() are not affected.
+   * @default []
+   */
+  redactedFields: string[];
 
   /**
    * Add a createdAt field to each MongoDB document
@@ -112,8 +331,142 @@ export interface MongoAdapterOptions {
    * Options to pass to the MongoDB change stream.
    */
   changeStreamOptions?: Partial<ChangeStreamOptions>;
+  /**
+   * Number of ms before the first attempt to reopen the change stream, doubled after each attempt
+   * @default 1000
+   */
+  reconnectionDelay: number;
+  /**
+   * Maximum number of ms between two attempts to reopen the change stream
+   * @default 5000
+   */
+  reconnectionDelayMax: number;
+  /**
+   * Randomization factor of the reconnection delay, so that the nodes do not reconnect in lockstep (between 0 and 1)
+   * @default 0.5
+   */
+  randomizationFactor: number;
+  /**
+   * Number of consecutive attempts to reopen the change stream before giving up. The change stream is then considered
+   * unhealthy.
+   * @default Infinity
+   */
+  reconnectionAttempts: number;
+  /**
+   * Persist the resume token of the change stream, so that the node resumes from where it stopped after a restart,
+   * instead of missing the events published in the meantime. Requires a stable `uid`.
+   *
+   * @see MongoResumeTokenStore
+   */
+  resumeTokenStore?: ResumeTokenStore;
+  /**
+   * Number of ms between two saves of the resume token
+   * @default 1000
+   */
+  resumeTokenSaveInterval: number;
+
+  /**
+   * A dedicated collection to store the sessions, for the connection state recovery feature. The documents in this
+   * collection are deleted upon restoration and include a createdAt field, so they can be cleaned up with a TTL index.
+   *
+   * If not provided, the sessions are stored in the same collection as the other events.
+   */
+  sessionCollection?: Collection;
+
+  /**
+   * Check the configuration of the collection upon startup, and create the missing indexes.
+   *
+   * Any mismatch with the existing collection is reported as a process warning.
+   *
+   * @see ensureCollection
+   */
+  ensureCollection?: EnsureCollectionOptions;
+
+  /**
+   * Compress the data of the documents whose size exceeds the given threshold. The other nodes of the cluster do not
+   * need to enable this option to be able to read the compressed documents.
+   */
+  compression?: Partial<CompressionOptions>;
+
+  /**
+   * Serialize the data of the documents with the given serializer, instead of relying on the BSON serialization of the
+   * MongoDB driver. All the nodes of the cluster must use the same serializer.
+   *
+   * @see bsonSerializer
+   * @see msgpackSerializer
+   */
+  serializer?: Serializer;
+
+  /**
+   * Encrypt the data of the documents with AES-256-GCM, so that the payloads (packets, sessions, fetchSockets()
+   * responses, ...) are not stored in plaintext in the collection. The attributes used in the MongoDB queries are left
+   * unencrypted (the rooms of the broadcasts, the request IDs), except the private session IDs, which are hashed.
+   *
+   * All the nodes of the cluster must know the keys of the documents they read.
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * Coalesce the documents published within a small window (or up to a given number of documents) into a single
+   * insertMany() call, instead of one insertOne() call per document.
+   */
+  batching?: Partial<BatchingOptions>;
+
+  /**
+   * Retry the insertions which have failed due to a transient error (network error, primary failover, ...), and keep
+   * the new documents in memory while MongoDB is unavailable.
+   *
+   * The documents which cannot be inserted are reported with an "error" event on the adapter.
+   */
+  publishRetry?: Partial<PublishRetryOptions>;
+
+  /**
+   * Elect a leader among the nodes serving the namespace, for example to run cluster-wide singleton jobs.
+   *
+   * @see MongoAdapter.isLeader
+   */
+  leaderElection?: LeaderElectionOptions;
+
+  /**
+   * Report the activity of the adapter (published and received documents, pending requests, ...).
+   *
+   * @see PrometheusMetrics
+   */
+  metrics?: Metrics;
+
+  /**
+   * Create OpenTelemetry spans (publish, reception, local broadcast, requests) and propagate the W3C trace context
+   * across the nodes. Requires the "@opentelemetry/api" package.
+   * @default false
+   */
+  tracing: boolean;
 }
 
+export interface EnsureCollectionOptions {
+  /**
+   * How the documents are cleaned up:
+   *
+   * - "capped": a capped collection
+   * - "ttl": a TTL index on the createdAt field (requires the `addCreatedAtField` option)
+   */
+  mode: "capped" | "ttl";
+  /**
+   * The maximum size of the capped collection, in bytes
+   * @default 1e6
+   */
+  size?: number;
+  /**
+   * The number of seconds after which a document is deleted by the TTL index (and, in both modes, after which a session
+   * of the `sessionCollection` is deleted, if not restored)
+   * @default 3600
+   */
+  expireAfterSeconds?: number;
+}
+
+const DEFAULT_CAPPED_SIZE = 1e6;
+const DEFAULT_EXPIRE_AFTER_SECONDS = 3600;
+const NAMESPACE_EXISTS_ERROR_CODE = 48;
+
 /**
  * It seems the `promoteBuffers` option is not always honored, so we manually replace Binary objects by the underlying
  * Buffer objects.
@@ -145,101 +498,383 @@ const replaceBinaryObjectsByBuffers = (obj: any) => {
   return obj;
 };
 
-function onPublishError(err: Error) {
-  debug("something went wrong when inserting the MongoDB document: %s", err);
+/**
+ * The indexes used when restoring a session (connection state recovery)
+ */
+const SESSION_PID_INDEX: IndexDescription = {
+  name: "socket.io-session-pid",
+  key: { "data.pid": 1 },
+  partialFilterExpression: { type: EventType.SESSION },
+};
+
+const MISSED_PACKETS_INDEX: IndexDescription = {
+  name: "socket.io-missed-packets",
+  key: { nsp: 1, _id: 1, "data.opts.rooms": 1 },
+  partialFilterExpression: { type: EventType.BROADCAST },
+};
+
+/**
+ * Creates the collection if needed, along with its indexes, and checks that its configuration matches the given
+ * options.
+ *
+ * @param db - a MongoDB database instance
+ * @param name - the name of the collection
+ * @param opts - the expected configuration
+ *
+ * @public
+ */
+export async function ensureCollection(
+  db: Db,
+  name: string,
+  opts: EnsureCollectionOptions
+): Promise<Collection> {
+  await createCollectionIfMissing(db, name, opts);
+
+  const collection = db.collection(name);
+
+  await checkCollection(collection, opts, [
+    SESSION_PID_INDEX,
+    MISSED_PACKETS_INDEX,
+  ]);
+
+  return collection;
 }
 
+/**
+ * Returns the size of a capped collection as reported by MongoDB, which rounds it up to a multiple of 256 bytes (with a
+ * minimum of 4096 bytes).
+ *
+ * @param size - the requested size, in bytes
+ */
+const cappedSize = (size: number) =>
+  Math.max(4096, Math.ceil(size / 256) * 256);
+
+/**
+ * Creates the collection with the given options, unless it already exists.
+ *
+ * @param db - a MongoDB database instance
+ * @param name - the name of the collection
+ * @param opts - the expected configuration
+ */
+async function createCollectionIfMissing(
+  db: Db,
+  name: string,
+  opts: EnsureCollectionOptions
+) {
+  const exists =
+    (await db.listCollections({ name }, { nameOnly: true }).toArray()).length >
+    0;
+
+  if (!exists) {
+    debug("creating collection %s in %s mode", name, opts.mode);
+    try {
+      await db.createCollection(
+        name,
+        opts.mode === "capped"
+          ? { capped: true, size: opts.size || DEFAULT_CAPPED_SIZE }
+          : {}
+      );
+    } catch (e) {
+      // the collection may have been created concurrently by another node
+      if (
+        !(e instanceof MongoServerError) ||
+        e.code !== NAMESPACE_EXISTS_ERROR_CODE
+      ) {
+        throw e;
+      }
+    }
+  }
+}
+
+/**
+ * Returns the database of the collection, since the client is not part of the typings of the Collection class.
+ */
+const dbOf = (collection: Collection): Db | undefined =>
+  (collection as any).client?.db(collection.dbName) ||
+  (collection as any).s?.db;
+
+/**
+ * The setups of the collections (see the `ensureCollection` option) which are still in progress. The insertions must
+ * wait for them, or else MongoDB would implicitly create a regular collection.
+ */
+const pendingSetups = new WeakMap<Collection, Promise<void>>();
+
+/**
+ * Creates the collection if needed, along with its indexes, and reports any mismatch as a process warning.
+ *
+ * @param collection - a MongoDB collection instance
+ * @param opts - the expected configuration
+ * @param indexes - the expected indexes, in addition to the TTL index
+ */
+function setUpCollection(
+  collection: Collection,
+  opts: EnsureCollectionOptions,
+  indexes: IndexDescription[]
+) {
+  const db = dbOf(collection);
+  const setup = (
+    db
+      ? createCollectionIfMissing(db, collection.collectionName, opts)
+      : Promise.resolve()
+  )
+    .then(() => checkCollection(collection, opts, indexes))
+    .catch(onInvalidCollection)
+    .then(() => {
+      pendingSetups.delete(collection);
+    });
+  pendingSetups.set(collection, setup);
+}
+
+const onInvalidCollection = (err: Error) => {
+  debug("invalid collection configuration: %s", err.message);
+  process.emitWarning(err.message);
+};
+
+/**
+ * Creates the missing indexes of an existing collection and checks that its configuration matches the given options.
+ *
+ * @param collection - a MongoDB collection instance
+ * @param opts - the expected configuration
+ * @param indexes - the expected indexes, in addition to the TTL index
+ */
+async function checkCollection(
+  collection: Collection,
+  opts: EnsureCollectionOptions,
+  indexes: IndexDescription[]
+) {
+  const mismatches: string[] = [];
+  // rejects if the collection does not exist, instead of implicitly creating a regular collection with the indexes
+  const options = await collection.options();
+
+  if (opts.mode === "capped") {
+    const expectedSize = opts.size && cappedSize(opts.size);
+    if (!options.capped) {
+      mismatches.push("the collection is not capped");
+    } else if (expectedSize && options.size !== expectedSize) {
+      mismatches.push(
+        `the size of the capped collection is ${options.size} instead of ${expectedSize}`
+      );
+    }
+  } else if (options.capped) {
+    mismatches.push("a capped collection cannot have a TTL index");
+  }
+
+  const existingIndexes = await collection
+    .listIndexes()
+    .toArray()
+    .catch(() => [] as Document[]);
+
+  const expectedIndexes = [...indexes];
+
+  if (opts.mode === "ttl" && !options.capped) {
+    const expireAfterSeconds =
+      opts.expireAfterSeconds || DEFAULT_EXPIRE_AFTER_SECONDS;
+    const ttlIndex = existingIndexes.find(
+      (index) =>
+        Object.keys(index.key).length === 1 && index.key.createdAt === 1
+    );
+
+    if (!ttlIndex) {
+      expectedIndexes.push({
+        name: "socket.io-ttl",
+        key: { createdAt: 1 },
+        expireAfterSeconds,
+      });
+    } else if (ttlIndex.expireAfterSeconds !== expireAfterSeconds) {
+      mismatches.push(
+        `the TTL index "${ttlIndex.name}" expires after ${ttlIndex.expireAfterSeconds} seconds instead of ${expireAfterSeconds}`
+      );
+    }
+  }
+
+  const missingIndexes = expectedIndexes.filter((expectedIndex) => {
+    const index = existingIndexes.find(
+      ({ name }) => name === expectedIndex.name
+    );
+    if (!index) {
+      return true;
+    }
+    if (
+      JSON.stringify(index.key) !== JSON.stringify(expectedIndex.key) ||
+      JSON.stringify(index.partialFilterExpression) !==
+        JSON.stringify(expectedIndex.partialFilterExpression)
+    ) {
+      mismatches.push(
+        `the index "${index.name}" does not match the expected definition`
+      );
+    }
+    return false;
+  });
+
+  if (missingIndexes.length > 0) {
+    debug(
+      "creating indexes %j",
+      missingIndexes.map(({ name }) => name)
+    );
+    await collection.createIndexes(missingIndexes);
+  }
+
+  if (mismatches.length > 0) {
+    throw new Error(
+      `collection "${
+        collection.collectionName
+      }" does not match the expected configuration: ${mismatches.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Returns the collection which stores the events of the given namespace.
+ *
+ * Each collection gets its own change stream, so the function should return the same Collection instance for a given
+ * collection.
+ */
+export type CollectionRouter = (nsp: string) => Collection;
+
+type AdapterFactory = ((nsp: any) => MongoAdapter) & {
+  /**
+   * The change stream of each collection
+   */
+  changeStreams: Map<Collection, ChangeStreamHandle>;
+};
+
 /**
  * Returns a function that will create a MongoAdapter instance.
  *
- * @param mongoCollection - a MongoDB collection instance
+ * @param mongoCollection - a MongoDB collection instance, or a function returning the collection of each namespace
  * @param opts - additional options
  *
  * @public
  */
 export function createAdapter(
   mongoCollection: Collection,
+  opts?: Partial<MongoAdapterOptions>
+): AdapterFactory & { changeStream: ChangeStreamHandle };
+export function createAdapter(
+  router: CollectionRouter,
+  opts?: Partial<MongoAdapterOptions>
+): AdapterFactory;
+export function createAdapter(
+  mongoCollection: Collection | CollectionRouter,
   opts: Partial<MongoAdapterOptions> = {}
 ) {
+  if (opts.resumeTokenStore && !opts.uid) {
+    process.emitWarning(
+      "the resumeTokenStore option requires a stable uid, the resume token will not be reused after a restart"
+    );
+  }
+
   opts.uid = opts.uid || randomId();
 
-  let isClosed = false;
-  let adapters = new Map<string, MongoAdapter>();
-  let changeStream: ChangeStream;
-  let changeStreamOpts: ChangeStreamOptions = opts.changeStreamOptions ?? {};
+  if (opts.ensureCollection?.mode === "ttl") {
+    opts.addCreatedAtField = true;
+  }
 
-  const initChangeStream = () => {
-    if (isClosed || (changeStream && !changeStream.closed)) {
-      return;
-    }
-    debug("opening change stream");
-    changeStream = mongoCollection.watch(
-      [
-        {
-          $match: {
-            "fullDocument.uid": {
-              $ne: opts.uid, // ignore events from self
-            },
-          },
-        },
-      ],
-      changeStreamOpts
+  if (opts.ensureCollection && opts.sessionCollection) {
+    // the sessions are deleted upon restoration, or else by the TTL index
+    setUpCollection(
+      opts.sessionCollection,
+      {
+        mode: "ttl",
+        expireAfterSeconds: opts.ensureCollection.expireAfterSeconds,
+      },
+      [SESSION_PID_INDEX]
     );
+  }
+
+  const isRouted = typeof mongoCollection === "function";
+  const router: CollectionRouter =
+    typeof mongoCollection === "function"
+      ? mongoCollection
+      : () => mongoCollection;
 
-    changeStream.on("change", (event: any) => {
-      if (event.operationType === "insert") {
-        changeStreamOpts.resumeAfter = changeStream.resumeToken;
+  const adapters = new Map<string, MongoAdapter>();
+  // the collection of each namespace
+  const collections = new Map<string, Collection>();
+  const changeStreams = new Map<Collection, ChangeStreamHandle>();
+
+  const namespacesOf = (collection: Collection) =>
+    [...collections.keys()].filter(
+      (name) => collections.get(name) === collection
+    );
+
+  const getChangeStream = (collection: Collection) => {
+    let changeStream = changeStreams.get(collection);
+    if (changeStream) {
+      return changeStream;
+    }
+
+    if (opts.ensureCollection) {
+      setUpCollection(
+        collection,
+        opts.ensureCollection,
+        // the sessions are not stored in this collection when the sessionCollection option is set
+        opts.sessionCollection
+          ? [MISSED_PACKETS_INDEX]
+          : [SESSION_PID_INDEX, MISSED_PACKETS_INDEX]
+      );
+    }
+
+    changeStream = new ChangeStreamHandle(
+      collection,
+      opts,
+      (event) => {
         adapters.get(event.fullDocument?.nsp)?.onEvent(event);
-      }
-    });
+      },
+      isRouted ? `${opts.uid}:${collection.namespace}` : opts.uid
+    );
 
-    changeStream.on("error", (err: Error) => {
-      debug("change stream encountered an error: %s", err.message);
-      if (
-        err instanceof MongoServerError &&
-        !err.hasErrorLabel("ResumableChangeStreamError")
-      ) {
-        // the resume token was not found in the oplog
-        changeStreamOpts = {};
-      }
+    changeStream.on("resumeTokenLost", () => {
+      // the adapters might want to resync their state, since some events were missed
+      namespacesOf(collection).forEach((name) =>
+        adapters.get(name)?.emit("resumeTokenLost")
+      );
     });
 
-    changeStream.on("close", () => {
-      debug("change stream was closed, scheduling reconnection...");
-      setTimeout(() => {
-        initChangeStream();
-      }, 1000);
-    });
+    changeStreams.set(collection, changeStream);
+    return changeStream;
   };
 
-  return function (nsp: any) {
-    if (!changeStream) {
-      isClosed = false;
-      initChangeStream();
-    }
+  const factory = function (nsp: any) {
+    const collection = router(nsp.name);
+    const changeStream = getChangeStream(collection);
 
-    let adapter = new MongoAdapter(nsp, mongoCollection, opts);
+    let adapter = new MongoAdapter(nsp, collection, opts);
 
     adapters.set(nsp.name, adapter);
+    collections.set(nsp.name, collection);
+
+    changeStream.setNamespaces(namespacesOf(collection));
+    changeStream.open();
 
     const defaultClose = adapter.close;
 
     adapter.close = async () => {
       adapters.delete(nsp.name);
+      collections.delete(nsp.name);
 
-      if (adapters.size === 0) {
-        changeStream.removeAllListeners("close");
+      const namespaces = namespacesOf(collection);
+
+      if (namespaces.length === 0 && changeStream.status !== "closed") {
         await changeStream.close();
-        // @ts-ignore
-        changeStream = null;
-        isClosed = true;
+      } else {
+        changeStream.setNamespaces(namespaces);
       }
 
-      defaultClose.call(adapter);
+      return defaultClose.call(adapter);
     };
 
     return adapter;
   };
+
+  if (typeof mongoCollection === "function") {
+    return Object.assign(factory, { changeStreams });
+  }
+
+  return Object.assign(factory, {
+    changeStream: getChangeStream(mongoCollection),
+    changeStreams,
+  });
 }
 
 export class MongoAdapter extends Adapter {
@@ -247,14 +882,34 @@ export class MongoAdapter extends Adapter {
   public requestsTimeout: number;
   public heartbeatInterval: number;
   public heartbeatTimeout: number;
+  public livenessCheckInterval: number;
+  public fetchSocketsPartialResults: boolean;
+  public filterBroadcastsByRoom: boolean;
+  public fetchSocketsProjection: SocketProjection | undefined;
+  public redactedFields: string[];
   public addCreatedAtField: boolean;
 
   private readonly mongoCollection: Collection;
-  private nodesMap: Map<string, number> = new Map<string, number>(); // uid => timestamp of last message
+  private readonly sessionCollection: Collection | undefined;
+  private readonly codecOptions: CodecOptions;
+  private readonly batcher: InsertBatcher | undefined;
+  private readonly outbox: Outbox | undefined;
+  private readonly leaderElection: LeaderElection | undefined;
+  private readonly metrics: Metrics | undefined;
+  private readonly tracing: Tracing | undefined;
+  private readonly untrackPendingRequests: (() => void) | undefined;
+  private nodesMap: Map<string, ClusterNode> = new Map();
+  private readonly startedAt = Date.now();
   private heartbeatTimer: NodeJS.Timeout | undefined;
+  private livenessTimer: NodeJS.Timeout | undefined;
   private requests: Map<string, Request> = new Map();
   private ackRequests: Map<string, AckRequest> = new Map();
   private isClosed = false;
+  /**
+   * Whether the change stream may still be replaying the events published before the restart of the node (see the
+   * resumeTokenStore option)
+   */
+  private isCatchingUp: boolean;
 
   /**
    * Adapter constructor.
@@ -272,73 +927,209 @@ export class MongoAdapter extends Adapter {
   ) {
     super(nsp);
     this.mongoCollection = mongoCollection;
+    this.sessionCollection = opts.sessionCollection;
+    if (opts.encryption) {
+      checkEncryptionOptions(opts.encryption);
+    }
+    this.codecOptions = {
+      compression: opts.compression,
+      serializer: opts.serializer,
+      encryption: opts.encryption,
+    };
+    if (opts.batching) {
+      this.batcher = new InsertBatcher(mongoCollection, opts.batching);
+    }
+    if (opts.publishRetry) {
+      this.outbox = new Outbox(
+        (document) => this.insertDocument(document),
+        opts.publishRetry
+      );
+    }
     this.uid = opts.uid!;
     this.requestsTimeout = opts.requestsTimeout || 5000;
     this.heartbeatInterval = opts.heartbeatInterval || 5000;
     this.heartbeatTimeout = opts.heartbeatTimeout || 10000;
+    this.livenessCheckInterval = opts.livenessCheckInterval || 1000;
+    this.fetchSocketsPartialResults = !!opts.fetchSocketsPartialResults;
+    this.filterBroadcastsByRoom = !!opts.filterBroadcastsByRoom;
+    this.fetchSocketsProjection = opts.fetchSocketsProjection;
+    this.redactedFields = opts.redactedFields || [];
     this.addCreatedAtField = !!opts.addCreatedAtField;
+    this.metrics = opts.metrics;
+    this.isCatchingUp = !!opts.resumeTokenStore;
+    if (opts.tracing) {
+      this.tracing = new Tracing(version);
+    }
+    this.untrackPendingRequests = this.metrics?.trackPendingRequests(
+      nsp.name,
+      () => ({
+        requests: this.requests.size,
+        ackRequests: this.ackRequests.size,
+      })
+    );
+    if (opts.leaderElection) {
+      this.leaderElection = new LeaderElection(
+        this.uid,
+        nsp.name,
+        opts.leaderElection
+      );
+      this.leaderElection.on("leadershipChange", (isLeader, fencingToken) => {
+        this.emit("leadershipChange", isLeader, fencingToken);
+      });
+      this.leaderElection.start();
+    }
 
     this.publish({
       type: EventType.INITIAL_HEARTBEAT,
-    }).catch(onPublishError);
+      data: this.nodeMetadata(),
+    }).catch(this.onPublishError);
   }
 
   close(): Promise<void> | void {
+    if (this.isClosed) {
+      return;
+    }
+    // let the other nodes know that this node is leaving, instead of waiting for the heartbeat timeout
+    const promise = Promise.all([
+      this.publish({
+        type: EventType.NODE_LEAVE,
+      }).catch(this.onPublishError),
+      // let another node take over right away
+      this.leaderElection?.stop(),
+    ]).then(() => {});
+
     this.isClosed = true;
+    this.untrackPendingRequests?.();
+    this.batcher?.flush();
+    this.outbox?.close();
     if (this.heartbeatTimer) {
       clearTimeout(this.heartbeatTimer);
     }
-    return;
+    if (this.livenessTimer) {
+      clearTimeout(this.livenessTimer);
+    }
+    return promise;
   }
 
   public async onEvent(event: any) {
-    const document = event.fullDocument;
+    let document: any;
+    try {
+      document = decodeDocument(event.fullDocument, this.codecOptions);
+    } catch (e) {
+      debug("error while decoding document: %s", (e as Error).message);
+      return;
+    }
     debug(
       "new event of type %d for %s from %s",
       document.type,
       document.nsp,
       document.uid
     );
+    const lag = MongoAdapter.changeStreamLag(event);
+    this.metrics?.onReceive(this.nsp.name, EventType[document.type], lag);
+    const isReplayed = this.isReplayedEvent(lag);
+
+    if (
+      document.target &&
+      !([] as string[]).concat(document.target).includes(this.uid)
+    ) {
+      // the document is addressed to other nodes (the change stream should already filter it out)
+      return;
+    }
+
+    if (!this.tracing) {
+      return this.handleDocument(document, isReplayed);
+    }
 
-    if (document.uid && document.uid !== EMITTER_UID) {
-      this.nodesMap.set(document.uid, Date.now());
+    const span = this.tracing.startSpan(
+      `receive ${EventType[document.type]}`,
+      "CONSUMER",
+      this.spanAttributes(document.type),
+      this.tracing.extract(document.traceContext)
+    );
+    try {
+      await this.tracing.run(span, () =>
+        this.handleDocument(document, isReplayed)
+      );
+      this.tracing.end(span);
+    } catch (e) {
+      this.tracing.end(span, e);
+      throw e;
+    }
+  }
+
+  private async handleDocument(document: any, isReplayed: boolean) {
+    if (document.type === EventType.NODE_LEAVE) {
+      debug("node %s announced its departure", document.uid);
+      this.removeNode(document.uid, true);
+      return;
+    }
+
+    if (document.uid && document.uid !== EMITTER_UID && !isReplayed) {
+      const isHeartbeat =
+        document.type === EventType.INITIAL_HEARTBEAT ||
+        document.type === EventType.HEARTBEAT;
+      this.onNodeSeen(document.uid, isHeartbeat ? document.data : undefined);
     }
 
     switch (document.type) {
       case EventType.INITIAL_HEARTBEAT: {
         this.publish({
           type: EventType.HEARTBEAT,
-        }).catch(onPublishError);
+          data: this.nodeMetadata(),
+        }).catch(this.onPublishError);
         break;
       }
       case EventType.BROADCAST: {
         debug("broadcast with opts %j", document.data.opts);
 
         const withAck = document.data.requestId !== undefined;
+        if (
+          this.filterBroadcastsByRoom &&
+          !this.hasLocalRecipients(document.data.opts)
+        ) {
+          debug("no local socket in the target rooms, ignoring broadcast");
+          if (withAck) {
+            // the requester still expects a response from each node
+            this.publish({
+              type: EventType.BROADCAST_CLIENT_COUNT,
+              target: document.uid,
+              data: {
+                requestId: document.data.requestId,
+                clientCount: 0,
+              },
+            }).catch(this.onPublishError);
+          }
+          break;
+        }
         if (withAck) {
-          super.broadcastWithAck(
-            replaceBinaryObjectsByBuffers(document.data.packet),
-            MongoAdapter.deserializeOptions(document.data.opts),
-            (clientCount) => {
-              debug("waiting for %d client acknowledgements", clientCount);
-              this.publish({
-                type: EventType.BROADCAST_CLIENT_COUNT,
-                data: {
-                  requestId: document.data.requestId,
-                  clientCount,
-                },
-              });
-            },
-            (arg) => {
-              debug("received acknowledgement with value %j", arg);
-              this.publish({
-                type: EventType.BROADCAST_ACK,
-                data: {
-                  requestId: document.data.requestId,
-                  packet: arg,
-                },
-              });
-            }
+          this.traced(EventType.BROADCAST, () =>
+            super.broadcastWithAck(
+              replaceBinaryObjectsByBuffers(document.data.packet),
+              MongoAdapter.deserializeOptions(document.data.opts),
+              (clientCount) => {
+                debug("waiting for %d client acknowledgements", clientCount);
+                this.publish({
+                  type: EventType.BROADCAST_CLIENT_COUNT,
+                  target: document.uid,
+                  data: {
+                    requestId: document.data.requestId,
+                    clientCount,
+                  },
+                });
+              },
+              (arg) => {
+                debug("received acknowledgement with value %j", arg);
+                this.publish({
+                  type: EventType.BROADCAST_ACK,
+                  target: document.uid,
+                  data: {
+                    requestId: document.data.requestId,
+                    packet: arg,
+                  },
+                });
+              }
+            )
           );
         } else {
           const packet = replaceBinaryObjectsByBuffers(document.data.packet);
@@ -346,7 +1137,7 @@ export class MongoAdapter extends Adapter {
 
           this.addOffsetIfNecessary(packet, opts, document._id);
 
-          super.broadcast(packet, opts);
+          this.traced(EventType.BROADCAST, () => super.broadcast(packet, opts));
         }
         break;
       }
@@ -398,16 +1189,23 @@ export class MongoAdapter extends Adapter {
 
         this.publish({
           type: EventType.FETCH_SOCKETS_RESPONSE,
+          target: document.uid,
           data: {
             requestId: document.data.requestId,
-            sockets: localSockets.map((socket) => ({
-              id: socket.id,
-              handshake: socket.handshake,
-              rooms: [...socket.rooms],
-              data: socket.data,
-            })),
+            sockets: localSockets.map((socket) =>
+              projectSocket(
+                {
+                  id: socket.id,
+                  handshake: socket.handshake,
+                  rooms: [...socket.rooms],
+                  data: socket.data,
+                },
+                document.data.projection,
+                this.redactedFields
+              )
+            ),
           },
-        }).catch(onPublishError);
+        }).catch(this.onPublishError);
         break;
       }
       case EventType.FETCH_SOCKETS_RESPONSE: {
@@ -418,14 +1216,14 @@ export class MongoAdapter extends Adapter {
         }
 
         request.current++;
+        request.pendingUids.delete(document.uid);
+        request.respondedUids.push(document.uid);
         document.data.sockets.forEach((socket: any) =>
           request.responses.push(socket)
         );
 
-        if (request.current === request.expected) {
-          clearTimeout(request.timeout);
-          request.resolve(request.responses);
-          this.requests.delete(document.data.requestId);
+        if (request.current >= request.expected) {
+          this.completeRequest(document.data.requestId, request);
         }
         break;
       }
@@ -446,6 +1244,7 @@ export class MongoAdapter extends Adapter {
           debug("calling acknowledgement with %j", arg);
           this.publish({
             type: EventType.SERVER_SIDE_EMIT_RESPONSE,
+            target: document.uid,
             data: {
               requestId: document.data.requestId,
               packet: arg,
@@ -465,28 +1264,364 @@ export class MongoAdapter extends Adapter {
         }
 
         request.current++;
+        request.pendingUids.delete(document.uid);
+        request.respondedUids.push(document.uid);
         request.responses.push(document.data.packet);
 
-        if (request.current === request.expected) {
-          clearTimeout(request.timeout);
-          request.resolve(null, request.responses);
-          this.requests.delete(document.data.requestId);
+        if (request.current >= request.expected) {
+          this.completeRequest(document.data.requestId, request);
+        }
+        break;
+      }
+      case EventType.SOCKETS_COUNT: {
+        debug("counting sockets with opts %j", document.data.opts);
+        const localSockets = await super.fetchSockets(
+          MongoAdapter.deserializeOptions(document.data.opts)
+        );
+
+        this.publish({
+          type: EventType.SOCKETS_COUNT_RESPONSE,
+          target: document.uid,
+          data: {
+            requestId: document.data.requestId,
+            count: localSockets.length,
+          },
+        }).catch(this.onPublishError);
+        break;
+      }
+      case EventType.ALL_ROOMS: {
+        this.publish({
+          type: EventType.ALL_ROOMS_RESPONSE,
+          target: document.uid,
+          data: {
+            requestId: document.data.requestId,
+            rooms: this.localRooms(),
+          },
+        }).catch(this.onPublishError);
+        break;
+      }
+      case EventType.SOCKETS_COUNT_RESPONSE:
+      case EventType.ALL_ROOMS_RESPONSE: {
+        const request = this.requests.get(document.data.requestId);
+
+        if (!request) {
+          return;
+        }
+
+        request.current++;
+        request.pendingUids.delete(document.uid);
+        request.respondedUids.push(document.uid);
+        request.responses.push(
+          document.type === EventType.SOCKETS_COUNT_RESPONSE
+            ? document.data.count
+            : document.data.rooms
+        );
+
+        if (request.current >= request.expected) {
+          this.completeRequest(document.data.requestId, request);
+        }
+        break;
+      }
+      case EventType.REMOTE_JOIN:
+      case EventType.REMOTE_LEAVE:
+      case EventType.REMOTE_UPDATE_DATA:
+      case EventType.REMOTE_EMIT: {
+        const socket = this.nsp.sockets.get(document.data.id);
+        if (!socket) {
+          // only the node which owns the socket responds
+          return;
+        }
+        debug("applying operation %d to socket %s", document.type, socket.id);
+
+        const response: { requestId: string; result?: any; error?: string } = {
+          requestId: document.data.requestId,
+        };
+        try {
+          response.result = await MongoAdapter.applySocketOperation(
+            document.type,
+            socket,
+            document.data
+          );
+        } catch (e) {
+          response.error = (e as Error).message;
+        }
+
+        this.publish({
+          type: EventType.REMOTE_OPERATION_RESPONSE,
+          target: document.uid,
+          data: response,
+        }).catch(this.onPublishError);
+        break;
+      }
+      case EventType.REMOTE_OPERATION_RESPONSE: {
+        const request = this.requests.get(document.data.requestId);
+
+        if (!request) {
+          return;
+        }
+
+        request.current++;
+        request.respondedUids.push(document.uid);
+        request.responses.push(document.data);
+
+        this.completeRequest(document.data.requestId, request);
+      }
+    }
+  }
+
+  /**
+   * Whether this node is the current leader. Always false if the `leaderElection` option is not provided.
+   */
+  public isLeader(): boolean {
+    return !!this.leaderElection?.isLeader();
+  }
+
+  /**
+   * The fencing token of the current lease, if this node is the leader. It is incremented each time the leadership
+   * changes hands, so that the resources updated by the leader can reject the writes of a previous leader.
+   */
+  public get fencingToken(): number | undefined {
+    return this.leaderElection?.fencingToken;
+  }
+
+  /**
+   * Returns the number of ms between the insertion of the document and its reception, based on the wall time of the
+   * event (MongoDB 6.0+) or its cluster time (with a precision of one second).
+   *
+   * @param event - the change stream event
+   * @private
+   */
+  private static changeStreamLag(event: any): number | undefined {
+    if (event.wallTime instanceof Date) {
+      return Date.now() - event.wallTime.getTime();
+    }
+    if (event.clusterTime) {
+      return Date.now() - event.clusterTime.getHighBits() * 1000;
+    }
+  }
+
+  private spanAttributes(type: EventType) {
+    return {
+      "messaging.system": "mongodb",
+      "messaging.destination.name": this.mongoCollection.collectionName,
+      "socket.io.namespace": this.nsp.name,
+      "socket.io.event_type": EventType[type],
+    };
+  }
+
+  /**
+   * Runs the local part of an operation (for example, the broadcast to the local sockets) within a dedicated span.
+   *
+   * @private
+   */
+  private traced<T>(type: EventType, fn: () => T): T {
+    if (!this.tracing) {
+      return fn();
+    }
+    const span = this.tracing.startSpan(
+      `local ${EventType[type]}`,
+      "INTERNAL",
+      this.spanAttributes(type)
+    );
+    try {
+      const result = this.tracing.run(span, fn);
+      this.tracing.end(span);
+      return result;
+    } catch (e) {
+      this.tracing.end(span, e);
+      throw e;
+    }
+  }
+
+  /**
+   * Starts the span of a request, which ends once all the responses are received (or upon timeout).
+   *
+   * @private
+   */
+  private startRequestSpan(type: EventType) {
+    return this.tracing?.startSpan(
+      EventType[type],
+      "CLIENT",
+      this.spanAttributes(type)
+    );
+  }
+
+  private runInSpan<T>(span: any, fn: () => T): T {
+    return span ? this.tracing!.run(span, fn) : fn();
+  }
+
+  private endRequestSpan(request: Request, err?: Error) {
+    if (request.span) {
+      this.tracing!.end(request.span, err);
+    }
+  }
+
+  private scheduleHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+    }
+    this.heartbeatTimer = setTimeout(() => {
+      debug("sending heartbeat");
+      this.removeDeadNodes();
+      this.publish({
+        type: EventType.HEARTBEAT,
+        data: this.nodeMetadata(),
+      }).catch(this.onPublishError);
+      this.scheduleHeartbeat();
+    }, this.heartbeatInterval);
+  }
+
+  private nodeMetadata(): NodeMetadata {
+    return {
+      hostname: hostname(),
+      pid: process.pid,
+      startedAt: this.startedAt,
+      version,
+      namespaces: [...this.nsp.server._nsps.keys()],
+      socketsCount: this.sids.size,
+    };
+  }
+
+  /**
+   * Whether the event was inserted long before its reception, which happens when the change stream is resumed from a
+   * persisted token. Such events must not mark their emitter as alive.
+   *
+   * The check stops at the first recent event, so that the clocks of the nodes do not matter once the node has caught
+   * up.
+   *
+   * @param lag - the number of ms between the insertion of the event and its reception, based on the server time
+   * @private
+   */
+  private isReplayedEvent(lag: number | undefined) {
+    if (!this.isCatchingUp) {
+      return false;
+    }
+    if (lag === undefined || lag <= this.heartbeatTimeout) {
+      this.isCatchingUp = false;
+      return false;
+    }
+    return true;
+  }
+
+  private onNodeSeen(uid: string, metadata?: NodeMetadata) {
+    const node = this.nodesMap.get(uid);
+    if (node) {
+      node.lastSeen = Date.now();
+      if (metadata) {
+        node.metadata = metadata;
+      }
+      return;
+    }
+    debug("node %s joined", uid);
+    const newNode: ClusterNode = {
+      uid,
+      lastSeen: Date.now(),
+      metadata,
+    };
+    this.nodesMap.set(uid, newNode);
+    this.emit("nodeJoined", newNode);
+  }
+
+  /**
+   * Completes the request with the responses received so far. If some nodes were considered down before sending their
+   * response, their UIDs are included in the `missingNodes` attribute of the responses.
+   *
+   * @param requestId - the ID of the request
+   * @param request - the request
+   * @private
+   */
+  private completeRequest(requestId: string, request: Request) {
+    clearTimeout(request.timeout);
+    this.requests.delete(requestId);
+    this.endRequestSpan(request);
+    if (request.missingUids.length > 0) {
+      debug(
+        "request %s completed without the responses of %j",
+        requestId,
+        request.missingUids
+      );
+      request.resolve(MongoAdapter.toPartialResponses(request));
+    } else {
+      request.resolve(request.responses);
+    }
+  }
+
+  private static toPartialResponses(request: Request): PartialResponses<any> {
+    return Object.assign(request.responses, {
+      respondedNodes: request.respondedUids,
+      missingNodes: [...request.missingUids, ...request.pendingUids],
+    });
+  }
+
+  /**
+   * Removes a node from the cluster, and completes the requests which were only waiting for its response.
+   *
+   * @param uid - the UID of the node
+   * @param hasLeft - whether the node has announced its departure (else it is considered down)
+   * @private
+   */
+  private removeNode(uid: string, hasLeft: boolean) {
+    const node = this.nodesMap.get(uid);
+    if (!node) {
+      return;
+    }
+    this.nodesMap.delete(uid);
+    this.emit("nodeLeft", node);
+
+    this.requests.forEach((request, requestId) => {
+      if (request.pendingUids.delete(uid)) {
+        request.expected--;
+        if (!hasLeft) {
+          request.missingUids.push(uid);
+        }
+        if (request.current >= request.expected) {
+          this.completeRequest(requestId, request);
         }
       }
+    });
+  }
+
+  private removeDeadNodes() {
+    this.nodesMap.forEach((node, uid) => {
+      const nodeSeemsDown = Date.now() - node.lastSeen > this.heartbeatTimeout;
+      if (nodeSeemsDown) {
+        debug("node %s seems down", uid);
+        this.removeNode(uid, false);
+      }
+    });
+  }
+
+  /**
+   * Periodically checks whether the nodes which have not responded yet to a pending request are still alive.
+   *
+   * @private
+   */
+  private scheduleLivenessCheck() {
+    if (this.livenessTimer || this.isClosed) {
+      return;
     }
+    this.livenessTimer = setTimeout(() => {
+      this.livenessTimer = undefined;
+      this.removeDeadNodes();
+      if (this.requests.size > 0) {
+        this.scheduleLivenessCheck();
+      }
+    }, this.livenessCheckInterval);
   }
 
-  private scheduleHeartbeat() {
-    if (this.heartbeatTimer) {
-      clearTimeout(this.heartbeatTimer);
-    }
-    this.heartbeatTimer = setTimeout(() => {
-      debug("sending heartbeat");
-      this.publish({
-        type: EventType.HEARTBEAT,
-      }).catch(onPublishError);
-      this.scheduleHeartbeat();
-    }, this.heartbeatInterval);
+  /**
+   * Returns the list of the nodes of the cluster, including the current one.
+   */
+  public getNodes(): ClusterNode[] {
+    this.removeDeadNodes();
+    return [
+      {
+        uid: this.uid,
+        lastSeen: Date.now(),
+        metadata: this.nodeMetadata(),
+      },
+      ...this.nodesMap.values(),
+    ];
   }
 
   private publish(document: AdapterEvent): Promise<string> {
@@ -501,13 +1636,72 @@ export class MongoAdapter extends Adapter {
       document.createdAt = new Date();
     }
 
-    this.scheduleHeartbeat();
+    this.metrics?.onPublish(this.nsp.name, EventType[document.type]);
+
+    const span = this.tracing?.startSpan(
+      `publish ${EventType[document.type]}`,
+      "PRODUCER",
+      this.spanAttributes(document.type)
+    );
+    if (span) {
+      document.traceContext = this.tracing!.inject(span);
+    }
+
+    encodeDocument(document, this.codecOptions);
+
+    // the targeted documents are not seen by the other nodes, so they do not replace the next heartbeat
+    if (!document.target) {
+      this.scheduleHeartbeat();
+    }
+
+    const insertion = this.outbox
+      ? this.outbox.write(document)
+      : this.insertDocument(document);
+
+    if (!span) {
+      return insertion.then((id) => id.toString("hex"));
+    }
+
+    return insertion.then(
+      (id) => {
+        this.tracing!.end(span);
+        return id.toString("hex");
+      },
+      (err) => {
+        this.tracing!.end(span, err);
+        throw err;
+      }
+    );
+  }
 
-    return this.mongoCollection
-      .insertOne(document)
-      .then((result) => result.insertedId.toString("hex"));
+  private insertDocument(document: Document): Promise<ObjectId> {
+    const setup = pendingSetups.get(this.mongoCollection);
+    if (setup) {
+      return setup.then(() => this.insertDocument(document));
+    }
+    const startedAt = Date.now();
+    const insertion = this.batcher
+      ? this.batcher.insert(document)
+      : this.mongoCollection
+          .insertOne(document)
+          .then((result) => result.insertedId);
+    return insertion.then((id) => {
+      this.metrics?.onInsert(Date.now() - startedAt);
+      return id;
+    });
   }
 
+  private onPublishError = (err: Error) => {
+    debug("something went wrong when inserting the MongoDB document: %s", err);
+    if (this.isClosed) {
+      return;
+    }
+    // an "error" event without listener would throw
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", err);
+    }
+  };
+
   /**
    * Transform ES6 Set into plain arrays
    */
@@ -519,6 +1713,21 @@ export class MongoAdapter extends Adapter {
     };
   }
 
+  /**
+   * Whether some local sockets might receive a broadcast with the given (serialized) options. The excluded rooms are
+   * not taken into account, since they cannot add recipients.
+   *
+   * @param opts - the serialized options of the broadcast
+   * @private
+   */
+  private hasLocalRecipients(opts: any) {
+    if (!opts.rooms || opts.rooms.length === 0) {
+      // broadcast to all sockets of the namespace
+      return this.sids.size > 0;
+    }
+    return opts.rooms.some((room: Room) => this.rooms.has(room));
+  }
+
   private static deserializeOptions(opts: any): BroadcastOptions {
     return {
       rooms: new Set(opts.rooms),
@@ -540,7 +1749,7 @@ export class MongoAdapter extends Adapter {
         });
         this.addOffsetIfNecessary(packet, opts, offset);
       } catch (err) {
-        debug("error while inserting document: %s", err);
+        this.onPublishError(err as Error);
         return;
       }
     }
@@ -553,6 +1762,44 @@ export class MongoAdapter extends Adapter {
     });
   }
 
+  /**
+   * Broadcasts a packet to the matching sockets of the given nodes only.
+   *
+   * @param uids - the UIDs of the nodes (see getNodes())
+   * @param packet - the packet to broadcast
+   * @param opts - the options
+   */
+  public async broadcastToNodes(
+    uids: string[],
+    packet: any,
+    opts: BroadcastOptions
+  ) {
+    const targets = uids.filter((uid) => uid !== this.uid);
+    if (targets.length > 0) {
+      try {
+        const offset = await this.publish({
+          type: EventType.BROADCAST,
+          // the current node is included, so that the packet can be replayed to its sockets (see restoreSession())
+          target: uids,
+          data: {
+            packet,
+            opts: MongoAdapter.serializeOptions(opts),
+          },
+        });
+        this.addOffsetIfNecessary(packet, opts, offset);
+      } catch (err) {
+        this.onPublishError(err as Error);
+        return;
+      }
+    }
+
+    if (uids.includes(this.uid)) {
+      process.nextTick(() => {
+        super.broadcast(packet, opts);
+      });
+    }
+  }
+
   /**
    * Adds an offset at the end of the data array in order to allow the client to receive any missed packets when it
    * reconnects after a temporary disconnection.
@@ -598,7 +1845,7 @@ export class MongoAdapter extends Adapter {
           requestId,
           opts: MongoAdapter.serializeOptions(opts),
         },
-      }).catch(onPublishError);
+      }).catch(this.onPublishError);
 
       this.ackRequests.set(requestId, {
         type: EventType.BROADCAST,
@@ -620,13 +1867,7 @@ export class MongoAdapter extends Adapter {
   }
 
   public serverCount(): Promise<number> {
-    this.nodesMap.forEach((lastSeen, uid) => {
-      const nodeSeemsDown = Date.now() - lastSeen > this.heartbeatTimeout;
-      if (nodeSeemsDown) {
-        debug("node %s seems down", uid);
-        this.nodesMap.delete(uid);
-      }
-    });
+    this.removeDeadNodes();
     return Promise.resolve(1 + this.nodesMap.size);
   }
 
@@ -644,7 +1885,7 @@ export class MongoAdapter extends Adapter {
         opts: MongoAdapter.serializeOptions(opts),
         rooms,
       },
-    }).catch(onPublishError);
+    }).catch(this.onPublishError);
   }
 
   delSockets(opts: BroadcastOptions, rooms: Room[]) {
@@ -661,7 +1902,7 @@ export class MongoAdapter extends Adapter {
         opts: MongoAdapter.serializeOptions(opts),
         rooms,
       },
-    }).catch(onPublishError);
+    }).catch(this.onPublishError);
   }
 
   disconnectSockets(opts: BroadcastOptions, close: boolean) {
@@ -678,10 +1919,20 @@ export class MongoAdapter extends Adapter {
         opts: MongoAdapter.serializeOptions(opts),
         close,
       },
-    }).catch(onPublishError);
+    }).catch(this.onPublishError);
   }
 
-  async fetchSockets(opts: BroadcastOptions): Promise<any[]> {
+  /**
+   * Returns the matching socket instances across the cluster.
+   *
+   * @param opts - the filters to apply
+   * @param projection - the attributes of the remote sockets to include (defaults to the `fetchSocketsProjection`
+   *                     option). The local sockets are returned as is.
+   */
+  async fetchSockets(
+    opts: BroadcastOptions,
+    projection: SocketProjection | undefined = this.fetchSocketsProjection
+  ): Promise<any[]> {
     const localSockets = await super.fetchSockets(opts);
     const expectedResponseCount = (await this.serverCount()) - 1;
 
@@ -695,6 +1946,132 @@ export class MongoAdapter extends Adapter {
       const timeout = setTimeout(() => {
         const storedRequest = this.requests.get(requestId);
         if (storedRequest) {
+          this.metrics?.onRequestTimeout(this.nsp.name, "FETCH_SOCKETS");
+          this.endRequestSpan(storedRequest, new Error("timeout reached"));
+          if (this.fetchSocketsPartialResults) {
+            debug(
+              "timeout reached, returning the sockets received so far (%d responses out of %d)",
+              storedRequest.current,
+              storedRequest.expected
+            );
+            resolve(MongoAdapter.toPartialResponses(storedRequest));
+          } else {
+            reject(
+              new Error(
+                `timeout reached: only ${storedRequest.current} responses received out of ${storedRequest.expected}`
+              )
+            );
+          }
+          this.requests.delete(requestId);
+        }
+      }, this.requestsTimeout);
+
+      const storedRequest = {
+        type: EventType.FETCH_SOCKETS,
+        resolve,
+        timeout,
+        current: 0,
+        expected: expectedResponseCount,
+        responses: localSockets,
+        pendingUids: new Set(this.nodesMap.keys()),
+        missingUids: [],
+        respondedUids: [],
+        span: this.startRequestSpan(EventType.FETCH_SOCKETS),
+      };
+      this.requests.set(requestId, storedRequest);
+      this.scheduleLivenessCheck();
+
+      // the spans of the other nodes are children of the span of the request
+      this.runInSpan(storedRequest.span, () =>
+        this.publish({
+          type: EventType.FETCH_SOCKETS,
+          data: {
+            opts: MongoAdapter.serializeOptions(opts),
+            requestId,
+            projection,
+          },
+        })
+      );
+    });
+  }
+
+  /**
+   * Returns the number of sockets matching the given options across the cluster, without fetching them.
+   *
+   * @param opts - the filters to apply
+   */
+  public async socketsCount(
+    opts: BroadcastOptions = { rooms: new Set(), except: new Set() }
+  ): Promise<number> {
+    const localSockets = await super.fetchSockets(opts);
+
+    if (opts.flags?.local) {
+      return localSockets.length;
+    }
+
+    const counts = await this.aggregate<number>(
+      EventType.SOCKETS_COUNT,
+      { opts: MongoAdapter.serializeOptions(opts) },
+      localSockets.length
+    );
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * Returns the number of sockets in the given room across the cluster.
+   *
+   * @param room - the name of the room
+   */
+  public roomSize(room: Room): Promise<number> {
+    return this.socketsCount({ rooms: new Set([room]), except: new Set() });
+  }
+
+  /**
+   * Returns the names of all the rooms across the cluster, excluding the private room of each socket.
+   */
+  public async allRooms(): Promise<Set<Room>> {
+    const rooms = await this.aggregate<Room[]>(
+      EventType.ALL_ROOMS,
+      {},
+      this.localRooms()
+    );
+    const allRooms = new Set<Room>();
+    rooms.forEach((nodeRooms) =>
+      nodeRooms.forEach((room) => allRooms.add(room))
+    );
+    return allRooms;
+  }
+
+  private localRooms(): Room[] {
+    return [...this.rooms.keys()].filter((room) => !this.sids.has(room));
+  }
+
+  /**
+   * Sends a request to the other nodes, and resolves with the local response and the responses of the other nodes.
+   *
+   * @param type - the type of the request
+   * @param data - the data of the request
+   * @param localResponse - the response of the current node
+   * @private
+   */
+  private async aggregate<T>(
+    type: EventType,
+    data: object,
+    localResponse: T
+  ): Promise<T[]> {
+    const expectedResponseCount = (await this.serverCount()) - 1;
+
+    if (expectedResponseCount === 0) {
+      return [localResponse];
+    }
+
+    const requestId = randomId();
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        const storedRequest = this.requests.get(requestId);
+        if (storedRequest) {
+          this.metrics?.onRequestTimeout(this.nsp.name, EventType[type]);
           reject(
             new Error(
               `timeout reached: only ${storedRequest.current} responses received out of ${storedRequest.expected}`
@@ -705,25 +2082,164 @@ export class MongoAdapter extends Adapter {
       }, this.requestsTimeout);
 
       const storedRequest = {
-        type: EventType.FETCH_SOCKETS,
+        type,
         resolve,
         timeout,
         current: 0,
         expected: expectedResponseCount,
-        responses: localSockets,
+        responses: [localResponse],
+        pendingUids: new Set(this.nodesMap.keys()),
+        missingUids: [],
+        respondedUids: [],
       };
       this.requests.set(requestId, storedRequest);
+      this.scheduleLivenessCheck();
 
       this.publish({
-        type: EventType.FETCH_SOCKETS,
+        type,
         data: {
-          opts: MongoAdapter.serializeOptions(opts),
+          ...data,
+          requestId,
+        },
+      }).catch((err) => {
+        clearTimeout(timeout);
+        this.requests.delete(requestId);
+        reject(err);
+      });
+    });
+  }
+
+  /**
+   * Makes the given socket join the given rooms, and resolves once the node which owns the socket has confirmed the
+   * operation.
+   *
+   * @param id - the ID of the socket
+   * @param rooms - the room or rooms to join
+   */
+  public remoteJoin(id: SocketId, rooms: Room | Room[]): Promise<void> {
+    return this.socketOperation(EventType.REMOTE_JOIN, id, { rooms });
+  }
+
+  /**
+   * Makes the given socket leave the given room, and resolves once the node which owns the socket has confirmed the
+   * operation.
+   *
+   * @param id - the ID of the socket
+   * @param room - the room to leave
+   */
+  public remoteLeave(id: SocketId, room: Room): Promise<void> {
+    return this.socketOperation(EventType.REMOTE_LEAVE, id, { room });
+  }
+
+  /**
+   * Merges the given attributes into the `data` attribute of the given socket, and resolves once the node which owns
+   * the socket has confirmed the operation.
+   *
+   * @param id - the ID of the socket
+   * @param data - the attributes to update
+   */
+  public remoteUpdateData(id: SocketId, data: object): Promise<void> {
+    return this.socketOperation(EventType.REMOTE_UPDATE_DATA, id, { data });
+  }
+
+  /**
+   * Emits an event to the given socket, and resolves with the acknowledgement of the client.
+   *
+   * @param id - the ID of the socket
+   * @param event - the name of the event
+   * @param args - the arguments of the event
+   */
+  public remoteEmitWithAck(
+    id: SocketId,
+    event: string,
+    ...args: any[]
+  ): Promise<any> {
+    return this.socketOperation(EventType.REMOTE_EMIT, id, {
+      event,
+      args,
+      timeout: this.requestsTimeout,
+    });
+  }
+
+  /**
+   * Applies the operation to the socket if it is connected to this node, or else sends it to the other nodes and waits
+   * for the response of the node which owns the socket.
+   *
+   * @private
+   */
+  private socketOperation(
+    type: EventType,
+    id: SocketId,
+    data: Record<string, any>
+  ): Promise<any> {
+    const socket = this.nsp.sockets.get(id);
+    if (socket) {
+      return MongoAdapter.applySocketOperation(type, socket, data);
+    }
+
+    const requestId = randomId();
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (this.requests.delete(requestId)) {
+          this.metrics?.onRequestTimeout(this.nsp.name, EventType[type]);
+          reject(new Error(`socket ${id} was not found in the cluster`));
+        }
+      }, this.requestsTimeout + (data.timeout || 0));
+
+      this.requests.set(requestId, {
+        type,
+        resolve: ([response]: any[]) => {
+          if (response.error) {
+            reject(new Error(response.error));
+          } else {
+            resolve(replaceBinaryObjectsByBuffers(response.result));
+          }
+        },
+        timeout,
+        current: 0,
+        expected: 1,
+        responses: [],
+        pendingUids: new Set(),
+        missingUids: [],
+        respondedUids: [],
+      });
+
+      this.publish({
+        type,
+        data: {
+          ...data,
+          id,
           requestId,
         },
+      }).catch((err) => {
+        clearTimeout(timeout);
+        this.requests.delete(requestId);
+        reject(err);
       });
     });
   }
 
+  private static async applySocketOperation(
+    type: EventType,
+    socket: any,
+    data: any
+  ) {
+    switch (type) {
+      case EventType.REMOTE_JOIN:
+        return socket.join(data.rooms);
+      case EventType.REMOTE_LEAVE:
+        return socket.leave(data.room);
+      case EventType.REMOTE_UPDATE_DATA:
+        socket.data = Object.assign(socket.data || {}, data.data);
+        return;
+      case EventType.REMOTE_EMIT:
+        return socket
+          .timeout(data.timeout)
+          .emitWithAck(data.event, ...replaceBinaryObjectsByBuffers(data.args));
+    }
+  }
+
   public serverSideEmit(packet: any[]): void {
     const withAck = typeof packet[packet.length - 1] === "function";
 
@@ -739,12 +2255,45 @@ export class MongoAdapter extends Adapter {
       data: {
         packet,
       },
-    }).catch(onPublishError);
+    }).catch(this.onPublishError);
+  }
+
+  /**
+   * Sends an event to the given nodes only. If the last argument is a function, it is called with the responses of
+   * these nodes.
+   *
+   * @param uids - the UIDs of the nodes (see getNodes())
+   * @param packet - the event and its arguments
+   */
+  public serverSideEmitToNodes(uids: string[], packet: any[]): void {
+    const targets = uids.filter((uid) => uid !== this.uid);
+    const withAck = typeof packet[packet.length - 1] === "function";
+
+    if (withAck) {
+      this.serverSideEmitWithAck(packet, targets).catch(() => {
+        // ignore errors
+      });
+      return;
+    }
+
+    if (targets.length === 0) {
+      return;
+    }
+
+    this.publish({
+      type: EventType.SERVER_SIDE_EMIT,
+      target: targets,
+      data: {
+        packet,
+      },
+    }).catch(this.onPublishError);
   }
 
-  private async serverSideEmitWithAck(packet: any[]) {
+  private async serverSideEmitWithAck(packet: any[], targets?: string[]) {
     const ack = packet.pop();
-    const expectedResponseCount = (await this.serverCount()) - 1;
+    const expectedResponseCount = targets
+      ? targets.length
+      : (await this.serverCount()) - 1;
 
     debug(
       'waiting for %d responses to "serverSideEmit" request',
@@ -760,6 +2309,8 @@ export class MongoAdapter extends Adapter {
     const timeout = setTimeout(() => {
       const storedRequest = this.requests.get(requestId);
       if (storedRequest) {
+        this.metrics?.onRequestTimeout(this.nsp.name, "SERVER_SIDE_EMIT");
+        this.endRequestSpan(storedRequest, new Error("timeout reached"));
         ack(
           new Error(
             `timeout reached: only ${storedRequest.current} responses received out of ${storedRequest.expected}`
@@ -771,33 +2322,79 @@ export class MongoAdapter extends Adapter {
     }, this.requestsTimeout);
 
     const storedRequest = {
-      type: EventType.FETCH_SOCKETS,
-      resolve: ack,
+      type: EventType.SERVER_SIDE_EMIT,
+      resolve: (responses: any[]) => ack(null, responses),
       timeout,
       current: 0,
       expected: expectedResponseCount,
       responses: [],
+      pendingUids: new Set(targets || this.nodesMap.keys()),
+      missingUids: [],
+      respondedUids: [],
+      span: this.startRequestSpan(EventType.SERVER_SIDE_EMIT),
     };
     this.requests.set(requestId, storedRequest);
+    this.scheduleLivenessCheck();
 
-    this.publish({
+    const document: AdapterEvent = {
       type: EventType.SERVER_SIDE_EMIT,
       data: {
         requestId, // the presence of this attribute defines whether an acknowledgement is needed
         packet,
       },
-    }).catch(onPublishError);
+    };
+    if (targets) {
+      document.target = targets;
+    }
+    this.runInSpan(storedRequest.span, () =>
+      this.publish(document).catch(this.onPublishError)
+    );
   }
 
   override persistSession(session: any) {
     debug("persisting session: %j", session);
+    if (this.sessionCollection) {
+      const document: AdapterEvent = {
+        type: EventType.SESSION,
+        uid: this.uid,
+        nsp: this.nsp.name,
+        createdAt: new Date(),
+        data: session,
+      };
+      encodeDocument(document, this.codecOptions);
+      const sessionCollection = this.sessionCollection;
+      (pendingSetups.get(sessionCollection) || Promise.resolve())
+        .then(() => sessionCollection.insertOne(document))
+        .catch(this.onPublishError);
+      return;
+    }
     this.publish({
       type: EventType.SESSION,
       data: session,
-    }).catch(onPublishError);
+    }).catch(this.onPublishError);
   }
 
-  override async restoreSession(
+  override restoreSession(
+    pid: PrivateSessionId,
+    offset: string
+  ): Promise<Session> {
+    return this.findSessionAndMissedPackets(pid, offset).then(
+      (session) => {
+        this.metrics?.onSessionRestore(
+          this.nsp.name,
+          true,
+          session.missedPackets.length
+        );
+        return session;
+      },
+      (err) => {
+        this.metrics?.onSessionRestore(this.nsp.name, false, 0);
+        throw err;
+      }
+    );
+  }
+
+  private async findSessionAndMissedPackets(
     pid: PrivateSessionId,
     offset: string
   ): Promise<Session> {
@@ -810,7 +2407,7 @@ export class MongoAdapter extends Adapter {
     let results;
     try {
       results = await Promise.all([
-        // could use a sparse index on [data.pid] (only index the documents whose type is EventType.SESSION)
+        // see the "socket.io-session-pid" partial index created by ensureCollection()
         this.findSession(pid),
         this.mongoCollection.findOne({
           type: EventType.BROADCAST,
@@ -827,8 +2424,10 @@ export class MongoAdapter extends Adapter {
     }
 
     const session = results[0].data;
+    // the node which was serving the socket before its disconnection
+    const sessionUid = results[0].uid;
 
-    // could use a sparse index on [_id, nsp, data.opts.rooms, data.opts.except] (only index the documents whose type is EventType.BROADCAST)
+    // see the "socket.io-missed-packets" partial index created by ensureCollection()
     const cursor = this.mongoCollection.find({
       $and: [
         {
@@ -842,6 +2441,19 @@ export class MongoAdapter extends Adapter {
         {
           nsp: this.nsp.name,
         },
+        {
+          // the broadcasts targeting other nodes (see broadcastToNodes()) were never sent to the socket
+          $or: [
+            {
+              target: {
+                $exists: false,
+              },
+            },
+            {
+              target: sessionUid,
+            },
+          ],
+        },
         {
           $or: [
             {
@@ -877,7 +2489,8 @@ export class MongoAdapter extends Adapter {
 
     try {
       for await (const document of cursor) {
-        const packetData = document?.data?.packet?.data;
+        const packetData = decodeDocument(document, this.codecOptions)?.data
+          ?.packet?.data;
         if (packetData) {
           session.missedPackets.push(packetData);
         }
@@ -892,13 +2505,16 @@ export class MongoAdapter extends Adapter {
   private findSession(
     pid: PrivateSessionId
   ): Promise<WithId<Document> | undefined> {
+    if (this.sessionCollection) {
+      return this.findAndDeleteSession(this.sessionCollection, pid);
+    }
     const isCollectionCapped = !this.addCreatedAtField;
     if (isCollectionCapped) {
       return this.mongoCollection
         .findOne(
           {
             type: EventType.SESSION,
-            "data.pid": pid,
+            "data.pid": hashPid(pid, this.codecOptions),
           },
           {
             sort: {
@@ -912,11 +2528,13 @@ export class MongoAdapter extends Adapter {
             return;
           }
 
+          decodeDocument(result, this.codecOptions);
+
           if (result.data.sid) {
             debug("session found, adding tombstone");
 
             // since the collection is capped, we cannot remove documents from it, so we add a tombstone to prevent recovering the same session twice
-            // note: we could also have used two distinct collections, one for the events (capped) and the other for the sessions (not capped, with a TTL)
+            // note: the sessionCollection option allows to use a distinct collection for the sessions (not capped, with a TTL)
             const TOMBSTONE_SESSION = { pid, tombstone: true };
             this.persistSession(TOMBSTONE_SESSION);
 
@@ -926,16 +2544,26 @@ export class MongoAdapter extends Adapter {
           }
         });
     } else {
-      return this.mongoCollection
-        .findOneAndDelete({
-          type: EventType.SESSION,
-          "data.pid": pid,
-        })
-        .then((result) => {
-          return result?.ok && result.value
-            ? result.value // mongodb@5
-            : (result as unknown as WithId<Document>); // mongodb@6
-        });
+      return this.findAndDeleteSession(this.mongoCollection, pid);
     }
   }
+
+  private findAndDeleteSession(
+    collection: Collection,
+    pid: PrivateSessionId
+  ): Promise<WithId<Document> | undefined> {
+    return collection
+      .findOneAndDelete({
+        type: EventType.SESSION,
+        "data.pid": hashPid(pid, this.codecOptions),
+      })
+      .then((result) => {
+        return decodeDocument(
+          result?.ok && result.value
+            ? result.value // mongodb@5
+            : (result as unknown as WithId<Document>), // mongodb@6
+          this.codecOptions
+        );
+      });
+  }
 }
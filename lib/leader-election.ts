@@ -0,0 +1,215 @@
+import { EventEmitter } from "events";
+import { MongoError } from "mongodb";
+import type { Collection } from "mongodb";
+
+const debug = require("debug")("socket.io-mongo-adapter");
+
+export interface LeaderElectionOptions {
+  /**
+   * The collection which stores the lease documents. It must not be the collection of the adapter, since the lease
+   * document is updated in place.
+   */
+  collection: Collection;
+  /**
+   * The name of the lease, so that several elections can share the same collection
+   * @default the name of the namespace
+   */
+  key?: string;
+  /**
+   * Number of ms during which the lease is valid without being renewed. The leader is replaced after this delay if it
+   * stops renewing its lease (for example if the process crashes).
+   * @default 10000
+   */
+  leaseDuration?: number;
+  /**
+   * Number of ms between two attempts to acquire or renew the lease
+   * @default leaseDuration / 3
+   */
+  renewInterval?: number;
+}
+
+interface LeaseDocument {
+  _id: string;
+  holder: string;
+  expiresAt: Date;
+  fencingToken: number;
+}
+
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+function isDuplicateKeyError(err: unknown) {
+  return err instanceof MongoError && err.code === DUPLICATE_KEY_ERROR_CODE;
+}
+
+/**
+ * Elects a leader among the nodes of the cluster, with a lease document in MongoDB.
+ *
+ * The expiration date of the lease is computed by MongoDB (with $$NOW), so that the clocks of the nodes do not need to
+ * be synchronized. The fencing token is incremented each time the lease changes hands, so that the resources which are
+ * updated by the leader can reject the writes of a previous leader.
+ *
+ * Emitted events:
+ *
+ * - "leadershipChange" (isLeader, fencingToken): this node has acquired or lost the leadership
+ */
+export class LeaderElection extends EventEmitter {
+  /**
+   * The fencing token of the current lease, if this node is the leader
+   */
+  public fencingToken: number | undefined;
+
+  private readonly collection: Collection<LeaseDocument>;
+  private readonly key: string;
+  private readonly leaseDuration: number;
+  private readonly renewInterval: number;
+  private renewTimer: NodeJS.Timeout | undefined;
+  private stepDownTimer: NodeJS.Timeout | undefined;
+  private isStopped = false;
+
+  constructor(
+    private readonly uid: string,
+    key: string,
+    opts: LeaderElectionOptions
+  ) {
+    super();
+    this.collection = opts.collection as unknown as Collection<LeaseDocument>;
+    this.key = opts.key || key;
+    this.leaseDuration = opts.leaseDuration || 10000;
+    this.renewInterval =
+      opts.renewInterval || Math.floor(this.leaseDuration / 3);
+  }
+
+  public isLeader() {
+    return this.fencingToken !== undefined;
+  }
+
+  public start() {
+    this.isStopped = false;
+    this.scheduleRenewal(0);
+  }
+
+  /**
+   * Stops the election, and releases the lease so that another node can take over without waiting for its expiration.
+   */
+  public async stop() {
+    this.isStopped = true;
+    if (this.renewTimer) {
+      clearTimeout(this.renewTimer);
+      this.renewTimer = undefined;
+    }
+    if (!this.isLeader()) {
+      return;
+    }
+    this.stepDown();
+    await this.release();
+  }
+
+  private async release() {
+    try {
+      await this.collection.updateOne(
+        { _id: this.key, holder: this.uid },
+        { $set: { expiresAt: new Date(0) } }
+      );
+    } catch (e) {
+      debug("error while releasing the lease: %s", (e as Error).message);
+    }
+  }
+
+  private scheduleRenewal(delay: number) {
+    this.renewTimer = setTimeout(async () => {
+      await this.acquire();
+      if (!this.isStopped) {
+        this.scheduleRenewal(this.renewInterval);
+      }
+    }, delay);
+  }
+
+  private async acquire() {
+    const startedAt = Date.now();
+    let lease: LeaseDocument | null;
+    try {
+      // the upsert fails with a duplicate key error if the lease is held by another node
+      const result: any = await this.collection.findOneAndUpdate(
+        {
+          _id: this.key,
+          $expr: {
+            $or: [
+              { $eq: ["$holder", this.uid] },
+              { $lt: ["$expiresAt", "$$NOW"] },
+            ],
+          },
+        },
+        [
+          {
+            $set: {
+              fencingToken: {
+                $cond: [
+                  { $eq: ["$holder", this.uid] },
+                  "$fencingToken",
+                  { $add: [{ $ifNull: ["$fencingToken", 0] }, 1] },
+                ],
+              },
+            },
+          },
+          {
+            $set: {
+              holder: this.uid,
+              expiresAt: { $add: ["$$NOW", this.leaseDuration] },
+            },
+          },
+        ],
+        { upsert: true, returnDocument: "after" }
+      );
+      lease =
+        result?.ok && result.value
+          ? result.value // mongodb@5
+          : (result as LeaseDocument | null); // mongodb@6
+    } catch (e) {
+      if (isDuplicateKeyError(e)) {
+        // the lease is held by another node
+        this.stepDown();
+      } else {
+        // the lease might still be valid, until the step-down timer fires
+        debug("error while renewing the lease: %s", (e as Error).message);
+      }
+      return;
+    }
+
+    if (!lease || lease.holder !== this.uid) {
+      return;
+    }
+
+    if (this.isStopped) {
+      // stop() was called while the request was in flight
+      return this.release();
+    }
+
+    // the lease expires at least leaseDuration ms after the request was sent, whatever the clock of MongoDB
+    if (this.stepDownTimer) {
+      clearTimeout(this.stepDownTimer);
+    }
+    this.stepDownTimer = setTimeout(
+      () => this.stepDown(),
+      this.leaseDuration - (Date.now() - startedAt)
+    );
+
+    if (this.fencingToken !== lease.fencingToken) {
+      debug("acquired the lease %s (token: %d)", this.key, lease.fencingToken);
+      this.fencingToken = lease.fencingToken;
+      this.emit("leadershipChange", true, lease.fencingToken);
+    }
+  }
+
+  private stepDown() {
+    if (this.stepDownTimer) {
+      clearTimeout(this.stepDownTimer);
+      this.stepDownTimer = undefined;
+    }
+    if (!this.isLeader()) {
+      return;
+    }
+    debug("lost the lease %s", this.key);
+    this.fencingToken = undefined;
+    this.emit("leadershipChange", false);
+  }
+}
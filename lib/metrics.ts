@@ -0,0 +1,216 @@
+/**
+ * The number of requests waiting for the responses of the other nodes
+ */
+export interface PendingRequests {
+  /**
+   * The pending fetchSockets(), serverSideEmitWithAck(), ... requests
+   */
+  requests: number;
+  /**
+   * The pending broadcasts with acknowledgements
+   */
+  ackRequests: number;
+}
+
+/**
+ * Receives the measurements of the adapter.
+ *
+ * @see PrometheusMetrics
+ */
+export interface Metrics {
+  /**
+   * A document is published
+   *
+   * @param nsp - the name of the namespace
+   * @param type - the type of the document, for example "BROADCAST"
+   */
+  onPublish(nsp: string, type: string): void;
+  /**
+   * A document was inserted in the collection
+   *
+   * @param duration - the duration of the insertion, in milliseconds
+   */
+  onInsert(duration: number): void;
+  /**
+   * A document was received from the change stream
+   *
+   * @param nsp - the name of the namespace
+   * @param type - the type of the document
+   * @param lag - the number of milliseconds between the insertion of the document and its reception, if known
+   */
+  onReceive(nsp: string, type: string, lag: number | undefined): void;
+  /**
+   * A request has timed out before receiving the responses of all the nodes
+   *
+   * @param nsp - the name of the namespace
+   * @param type - the type of the request, for example "FETCH_SOCKETS"
+   */
+  onRequestTimeout(nsp: string, type: string): void;
+  /**
+   * The change stream is being reopened
+   */
+  onChangeStreamReconnect(): void;
+  /**
+   * A session was restored (or not), for the connection state recovery feature
+   *
+   * @param nsp - the name of the namespace
+   * @param success - whether the session was found
+   * @param missedPackets - the number of packets missed during the disconnection
+   */
+  onSessionRestore(nsp: string, success: boolean, missedPackets: number): void;
+  /**
+   * Registers a function returning the number of pending requests of an adapter, called when the metrics are
+   * collected.
+   *
+   * @param nsp - the name of the namespace
+   * @param collect - the function returning the number of pending requests
+   * @return a function to unregister the adapter
+   */
+  trackPendingRequests(nsp: string, collect: () => PendingRequests): () => void;
+}
+
+export interface PrometheusMetricsOptions {
+  /**
+   * The registry of the metrics
+   * @default the global registry of prom-client
+   */
+  registry: any;
+  /**
+   * The prefix of the name of the metrics
+   * @default "socket_io_mongo_adapter_"
+   */
+  prefix: string;
+}
+
+/**
+ * An implementation based on the "prom-client" package, which must be installed separately.
+ */
+export class PrometheusMetrics implements Metrics {
+  private readonly published: any;
+  private readonly received: any;
+  private readonly insertDuration: any;
+  private readonly changeStreamLag: any;
+  private readonly requestTimeouts: any;
+  private readonly changeStreamReconnections: any;
+  private readonly sessionRestorations: any;
+  private readonly missedPackets: any;
+  private readonly collectors = new Set<{
+    nsp: string;
+    collect: () => PendingRequests;
+  }>();
+
+  constructor(opts: Partial<PrometheusMetricsOptions> = {}) {
+    let client: any;
+    try {
+      client = require("prom-client");
+    } catch (e) {
+      throw new Error(
+        'the "prom-client" package must be installed to use the Prometheus metrics'
+      );
+    }
+    const prefix = opts.prefix ?? "socket_io_mongo_adapter_";
+    const registers = [opts.registry || client.register];
+    const collectors = this.collectors;
+
+    this.published = new client.Counter({
+      name: `${prefix}documents_published_total`,
+      help: "Number of documents published",
+      labelNames: ["nsp", "type"],
+      registers,
+    });
+    this.received = new client.Counter({
+      name: `${prefix}documents_received_total`,
+      help: "Number of documents received from the change stream",
+      labelNames: ["nsp", "type"],
+      registers,
+    });
+    this.insertDuration = new client.Histogram({
+      name: `${prefix}insert_duration_seconds`,
+      help: "Duration of the insertion of the documents",
+      registers,
+    });
+    this.changeStreamLag = new client.Histogram({
+      name: `${prefix}change_stream_lag_seconds`,
+      help: "Delay between the insertion of a document and its reception from the change stream",
+      registers,
+    });
+    new client.Gauge({
+      name: `${prefix}pending_requests`,
+      help: "Number of requests waiting for the responses of the other nodes",
+      labelNames: ["nsp", "kind"],
+      registers,
+      collect(this: any) {
+        this.reset();
+        collectors.forEach(({ nsp, collect }) => {
+          const { requests, ackRequests } = collect();
+          this.inc({ nsp, kind: "requests" }, requests);
+          this.inc({ nsp, kind: "ack_requests" }, ackRequests);
+        });
+      },
+    });
+    this.requestTimeouts = new client.Counter({
+      name: `${prefix}request_timeouts_total`,
+      help: "Number of requests which have timed out",
+      labelNames: ["nsp", "type"],
+      registers,
+    });
+    this.changeStreamReconnections = new client.Counter({
+      name: `${prefix}change_stream_reconnections_total`,
+      help: "Number of attempts to reopen the change stream",
+      registers,
+    });
+    this.sessionRestorations = new client.Counter({
+      name: `${prefix}session_restorations_total`,
+      help: "Number of attempts to restore a session",
+      labelNames: ["nsp", "result"],
+      registers,
+    });
+    this.missedPackets = new client.Histogram({
+      name: `${prefix}session_missed_packets`,
+      help: "Number of packets missed during the disconnection of a restored session",
+      buckets: [0, 1, 5, 10, 50, 100, 500, 1000],
+      registers,
+    });
+  }
+
+  onPublish(nsp: string, type: string) {
+    this.published.inc({ nsp, type });
+  }
+
+  onInsert(duration: number) {
+    this.insertDuration.observe(duration / 1000);
+  }
+
+  onReceive(nsp: string, type: string, lag: number | undefined) {
+    this.received.inc({ nsp, type });
+    if (lag !== undefined) {
+      this.changeStreamLag.observe(Math.max(0, lag) / 1000);
+    }
+  }
+
+  onRequestTimeout(nsp: string, type: string) {
+    this.requestTimeouts.inc({ nsp, type });
+  }
+
+  onChangeStreamReconnect() {
+    this.changeStreamReconnections.inc();
+  }
+
+  onSessionRestore(nsp: string, success: boolean, missedPackets: number) {
+    this.sessionRestorations.inc({
+      nsp,
+      result: success ? "success" : "failure",
+    });
+    if (success) {
+      this.missedPackets.observe(missedPackets);
+    }
+  }
+
+  trackPendingRequests(nsp: string, collect: () => PendingRequests) {
+    const collector = { nsp, collect };
+    this.collectors.add(collector);
+    return () => {
+      this.collectors.delete(collector);
+    };
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  MongoError,
+  MongoNetworkError,
+  MongoServerSelectionError,
+} from "mongodb";
+import type { Document, ObjectId } from "mongodb";
+
+const debug = require("debug")("socket.io-mongo-adapter");
+
+export interface PublishRetryOptions {
+  /**
+   * The maximum number of retries of a document upon a transient error
+   * @default 5
+   */
+  retries: number;
+  /**
+   * The number of ms before the first retry, doubled after each attempt
+   * @default 100
+   */
+  minDelay: number;
+  /**
+   * The maximum number of ms between two attempts
+   * @default 5000
+   */
+  maxDelay: number;
+  /**
+   * The maximum number of documents kept in memory while MongoDB is unavailable. Any additional document is dropped.
+   * @default 1000
+   */
+  maxOutboxSize: number;
+}
+
+interface PendingDocument {
+  document: Document;
+  resolve: (id: ObjectId) => void;
+  reject: (err: Error) => void;
+  /**
+   * Whether an insertion was already attempted
+   */
+  attempted: boolean;
+}
+
+/**
+ * Whether the insertion of the document might succeed if retried (network error, primary failover, ...)
+ */
+export function isTransientError(err: unknown) {
+  return (
+    err instanceof MongoNetworkError ||
+    err instanceof MongoServerSelectionError ||
+    (err instanceof MongoError && err.hasErrorLabel("RetryableWriteError"))
+  );
+}
+
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+function isDuplicateKeyError(err: unknown) {
+  return err instanceof MongoError && err.code === DUPLICATE_KEY_ERROR_CODE;
+}
+
+/**
+ * Retries the insertions which have failed due to a transient error, with an exponential backoff.
+ *
+ * While MongoDB is unavailable, the new documents are queued behind the failed ones (up to `maxOutboxSize`
+ * documents), so that they are inserted in order once MongoDB is available again.
+ */
+export class Outbox {
+  private readonly retries: number;
+  private readonly minDelay: number;
+  private readonly maxDelay: number;
+  private readonly maxOutboxSize: number;
+  private queue: PendingDocument[] = [];
+  private attempts = 0;
+  private retryTimer: NodeJS.Timeout | undefined;
+  /**
+   * Whether the queue is being drained, so that the new documents do not trigger a concurrent drain
+   */
+  private isDraining = false;
+  private isClosed = false;
+
+  constructor(
+    private readonly insert: (document: Document) => Promise<ObjectId>,
+    opts: Partial<PublishRetryOptions> = {}
+  ) {
+    this.retries = opts.retries ?? 5;
+    this.minDelay = opts.minDelay || 100;
+    this.maxDelay = opts.maxDelay || 5000;
+    this.maxOutboxSize = opts.maxOutboxSize ?? 1000;
+  }
+
+  /**
+   * The number of documents waiting to be inserted
+   */
+  public get size() {
+    return this.queue.length;
+  }
+
+  public write(document: Document): Promise<ObjectId> {
+    if (this.queue.length > 0) {
+      // MongoDB is currently unavailable
+      return this.enqueue(document, false);
+    }
+    return this.insert(document).catch((err) => {
+      if (!isTransientError(err)) {
+        throw err;
+      }
+      debug("transient error while inserting the document: %s", err.message);
+      return this.enqueue(document, true);
+    });
+  }
+
+  public close() {
+    this.isClosed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    const err = new Error("adapter is closed");
+    this.queue.splice(0).forEach(({ reject }) => reject(err));
+  }
+
+  private enqueue(document: Document, attempted: boolean): Promise<ObjectId> {
+    if (this.isClosed) {
+      return Promise.reject(new Error("adapter is closed"));
+    }
+    if (this.queue.length >= this.maxOutboxSize) {
+      return Promise.reject(
+        new Error(
+          `outbox is full (${this.maxOutboxSize} documents), dropping the document`
+        )
+      );
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ document, resolve, reject, attempted });
+      this.scheduleRetry();
+    });
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer || this.isDraining || this.isClosed) {
+      return;
+    }
+    const delay = Math.min(
+      this.maxDelay,
+      this.minDelay * Math.pow(2, this.attempts)
+    );
+    debug("retrying in %d ms (%d documents queued)", delay, this.queue.length);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.drain();
+    }, delay);
+  }
+
+  private async drain() {
+    this.isDraining = true;
+    try {
+      await this.drainQueue();
+    } finally {
+      this.isDraining = false;
+    }
+    if (this.queue.length > 0) {
+      // the insertion has failed due to a transient error
+      this.scheduleRetry();
+    }
+  }
+
+  private async drainQueue() {
+    while (this.queue.length > 0 && !this.isClosed) {
+      const pending = this.queue[0];
+      try {
+        const id = await this.insert(pending.document);
+        this.removeHead(pending);
+        this.attempts = 0;
+        pending.resolve(id);
+      } catch (err) {
+        if (this.isClosed) {
+          return;
+        }
+        if (pending.attempted && isDuplicateKeyError(err)) {
+          // a previous attempt has actually succeeded, but its response was lost
+          this.removeHead(pending);
+          this.attempts = 0;
+          pending.resolve(pending.document._id);
+          continue;
+        }
+        if (isTransientError(err) && this.attempts < this.retries) {
+          pending.attempted = true;
+          this.attempts++;
+          return;
+        }
+        this.removeHead(pending);
+        this.attempts = 0;
+        pending.reject(err as Error);
+      }
+    }
+  }
+
+  private removeHead(pending: PendingDocument) {
+    if (this.queue[0] === pending) {
+      this.queue.shift();
+    }
+  }
+}
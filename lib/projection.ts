@@ -0,0 +1,96 @@
+/**
+ * The attributes of the remote sockets to include in the responses to a fetchSockets() request
+ */
+export interface SocketProjection {
+  /**
+   * The paths of the attributes of the handshake to include, for example ["address", "headers.user-agent"]
+   * @default the whole handshake
+   */
+  handshake?: string[];
+  /**
+   * The paths of the attributes of `socket.data` to include, for example ["userId"]
+   * @default the whole data
+   */
+  data?: string[];
+}
+
+interface SerializedSocket {
+  id: string;
+  handshake: any;
+  rooms: string[];
+  data: any;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object";
+
+const hasOwn = (obj: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(obj, key);
+
+function pick(obj: any, paths: string[]) {
+  const result: Record<string, any> = {};
+  paths.forEach((path) => {
+    const segments = path.split(".");
+    let source = obj;
+    let target = result;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      if (!isObject(source) || !hasOwn(source, segment)) {
+        return;
+      }
+      source = source[segment];
+      if (i === segments.length - 1) {
+        target[segment] = source;
+      } else {
+        target[segment] = isObject(target[segment]) ? target[segment] : {};
+        target = target[segment];
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Removes the attribute at the given path, without modifying the original object (only the objects along the path are
+ * copied).
+ */
+function omit(obj: any, segments: string[]): any {
+  const [head, ...rest] = segments;
+  if (!isObject(obj) || !hasOwn(obj, head)) {
+    return obj;
+  }
+  const copy: Record<string, any> = { ...obj };
+  if (rest.length === 0) {
+    delete copy[head];
+  } else {
+    copy[head] = omit(obj[head], rest);
+  }
+  return copy;
+}
+
+/**
+ * Applies the projection of the request and the redaction list of the node to a socket, before it is written in the
+ * collection.
+ *
+ * @param socket - the serialized socket
+ * @param projection - the attributes requested by the other node
+ * @param redactedFields - the paths of the attributes which must never be written, for example "handshake.auth.token"
+ */
+export function projectSocket(
+  socket: SerializedSocket,
+  projection: SocketProjection | undefined,
+  redactedFields: string[]
+): SerializedSocket {
+  let result: SerializedSocket = {
+    id: socket.id,
+    handshake: projection?.handshake
+      ? pick(socket.handshake, projection.handshake)
+      : socket.handshake,
+    rooms: socket.rooms,
+    data: projection?.data ? pick(socket.data, projection.data) : socket.data,
+  };
+  redactedFields.forEach((path) => {
+    result = omit(result, path.split("."));
+  });
+  return result;
+}
@@ -0,0 +1,55 @@
+import type { Collection, Document, ResumeToken } from "mongodb";
+
+/**
+ * Persists the resume token of the change stream, so that a node restarted with the same UID can resume from where it
+ * stopped, instead of missing the events published while it was down.
+ */
+export interface ResumeTokenStore {
+  /**
+   * Returns the last token saved for the given change stream, if any
+   *
+   * @param key - the UID of the node, followed by the namespace of the collection when the namespaces are routed to
+   *              several collections (for example "node-1:test.events")
+   */
+  load(key: string): Promise<ResumeToken | undefined>;
+  /**
+   * Saves the token of the last event received by the given change stream
+   *
+   * @param key - the UID of the node, followed by the namespace of the collection when the namespaces are routed to
+   *              several collections
+   * @param token - the resume token
+   */
+  save(key: string, token: ResumeToken): Promise<void>;
+}
+
+interface ResumeTokenDocument {
+  _id: string;
+  token: ResumeToken;
+  updatedAt: Date;
+}
+
+/**
+ * A store which keeps one document per node (and per change stream) in the given MongoDB collection.
+ *
+ * The collection must not be the collection of the adapter, since it is not an append-only log.
+ */
+export class MongoResumeTokenStore implements ResumeTokenStore {
+  private readonly collection: Collection<ResumeTokenDocument>;
+
+  constructor(collection: Collection<Document>) {
+    this.collection = collection as unknown as Collection<ResumeTokenDocument>;
+  }
+
+  public async load(key: string) {
+    const document = await this.collection.findOne({ _id: key });
+    return document?.token;
+  }
+
+  public async save(key: string, token: ResumeToken) {
+    await this.collection.updateOne(
+      { _id: key },
+      { $set: { token, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+const debug = require("debug")("socket.io-mongo-adapter");
+
+/**
+ * The W3C trace context of a document, so that the spans of the receiving nodes are linked to the span of the
+ * publishing node
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+export interface TraceContext {
+  traceparent: string;
+  tracestate?: string;
+}
+
+export type SpanKind = "INTERNAL" | "PRODUCER" | "CONSUMER" | "CLIENT";
+
+const TRACEPARENT_REGEX = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Creates the spans of the adapter with the "@opentelemetry/api" package, which must be installed separately.
+ *
+ * The spans are exported by the SDK registered by the application (if any).
+ */
+export class Tracing {
+  private readonly api: any;
+  private readonly tracer: any;
+
+  constructor(version: string) {
+    try {
+      this.api = require("@opentelemetry/api");
+    } catch (e) {
+      throw new Error(
+        'the "@opentelemetry/api" package must be installed to enable tracing'
+      );
+    }
+    this.tracer = this.api.trace.getTracer("@socket.io/mongo-adapter", version);
+  }
+
+  /**
+   * Starts a new span, as a child of the given context or of the active context
+   *
+   * @param name - the name of the span
+   * @param kind - the kind of the span
+   * @param attributes - the attributes of the span
+   * @param parent - the parent context, extracted from a document
+   */
+  public startSpan(
+    name: string,
+    kind: SpanKind,
+    attributes: Record<string, string | number>,
+    parent: any = this.api.context.active()
+  ) {
+    return this.tracer.startSpan(
+      name,
+      { kind: this.api.SpanKind[kind], attributes },
+      parent
+    );
+  }
+
+  /**
+   * Runs the function with the given span as the active span, so that the spans created by the function (including
+   * the publish spans) are its children
+   */
+  public run<T>(span: any, fn: () => T): T {
+    return this.api.context.with(
+      this.api.trace.setSpan(this.api.context.active(), span),
+      fn
+    );
+  }
+
+  public end(span: any, err?: unknown) {
+    if (err) {
+      span.recordException(err instanceof Error ? err : String(err));
+      span.setStatus({
+        code: this.api.SpanStatusCode.ERROR,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+    span.end();
+  }
+
+  /**
+   * Returns the W3C trace context of the given span
+   */
+  public inject(span: any): TraceContext | undefined {
+    const spanContext = span.spanContext();
+    if (!this.api.trace.isSpanContextValid(spanContext)) {
+      return;
+    }
+    const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, "0");
+    const traceContext: TraceContext = {
+      traceparent: `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`,
+    };
+    const tracestate = spanContext.traceState?.serialize();
+    if (tracestate) {
+      traceContext.tracestate = tracestate;
+    }
+    return traceContext;
+  }
+
+  /**
+   * Returns the context whose parent is the remote span described by the given W3C trace context
+   */
+  public extract(traceContext: TraceContext | undefined) {
+    const root = this.api.ROOT_CONTEXT;
+    const match = TRACEPARENT_REGEX.exec(traceContext?.traceparent || "");
+    if (!match) {
+      return root;
+    }
+    try {
+      return this.api.trace.setSpanContext(root, {
+        traceId: match[1],
+        spanId: match[2],
+        traceFlags: parseInt(match[3], 16),
+        traceState: traceContext!.tracestate
+          ? this.api.createTraceState(traceContext!.tracestate)
+          : undefined,
+        isRemote: true,
+      });
+    } catch (e) {
+      debug("invalid trace context: %s", (e as Error).message);
+      return root;
+    }
+  }
+}
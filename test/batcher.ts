@@ -0,0 +1,95 @@
+import expect = require("expect.js");
+import { MongoBulkWriteError, ObjectId } from "mongodb";
+import { InsertBatcher } from "../lib/batcher";
+import { sleep } from "./util";
+
+function createFakeCollection() {
+  const calls: any[][] = [];
+  const collection: any = {
+    calls,
+    insertMany(documents: any[]) {
+      calls.push(documents);
+      return sleep(5).then(() => ({ insertedCount: documents.length }));
+    },
+  };
+  return collection;
+}
+
+describe("batching", () => {
+  it("inserts the documents published within the window in a single call", async () => {
+    const collection = createFakeCollection();
+    const batcher = new InsertBatcher(collection, { maxDelay: 2 });
+
+    const ids = await Promise.all([
+      batcher.insert({ type: 3 }),
+      batcher.insert({ type: 3 }),
+      batcher.insert({ type: 3 }),
+    ]);
+
+    expect(collection.calls).to.have.length(1);
+    expect(collection.calls[0]).to.have.length(3);
+
+    // the IDs are generated before the insertion and preserve the order
+    ids.forEach((id, i) => {
+      expect(id).to.be.an(ObjectId);
+      expect(id.equals(collection.calls[0][i]._id)).to.be(true);
+    });
+    expect(ids[0].toHexString() < ids[1].toHexString()).to.be(true);
+    expect(ids[1].toHexString() < ids[2].toHexString()).to.be(true);
+  });
+
+  it("inserts the documents right away when the batch is full", async () => {
+    const collection = createFakeCollection();
+    const batcher = new InsertBatcher(collection, {
+      maxDelay: 1000,
+      maxSize: 2,
+    });
+
+    await Promise.all([
+      batcher.insert({ type: 3 }),
+      batcher.insert({ type: 3 }),
+    ]);
+
+    expect(collection.calls).to.have.length(1);
+  });
+
+  it("waits for the previous batch before inserting the next one", async () => {
+    const collection = createFakeCollection();
+    const batcher = new InsertBatcher(collection, { maxDelay: 0 });
+
+    const first = batcher.insert({ type: 3, index: 0 });
+    await sleep(1);
+    const second = batcher.insert({ type: 3, index: 1 });
+    const third = batcher.insert({ type: 3, index: 2 });
+
+    await Promise.all([first, second, third]);
+
+    expect(collection.calls).to.have.length(2);
+    expect(collection.calls[0].map((doc: any) => doc.index)).to.eql([0]);
+    expect(collection.calls[1].map((doc: any) => doc.index)).to.eql([1, 2]);
+  });
+
+  it("rejects only the documents which were not inserted", async () => {
+    const collection: any = {
+      insertMany() {
+        return Promise.reject(
+          new MongoBulkWriteError({ message: "failure", code: 11000 }, {
+            insertedCount: 1,
+          } as any)
+        );
+      },
+    };
+    const batcher = new InsertBatcher(collection);
+
+    const results = await Promise.all(
+      [batcher.insert({ type: 3 }), batcher.insert({ type: 3 })].map((p) =>
+        p.then(
+          () => "inserted",
+          () => "failed"
+        )
+      )
+    );
+
+    expect(results).to.eql(["inserted", "failed"]);
+  });
+});
@@ -0,0 +1,323 @@
+import expect = require("expect.js");
+import { BSON } from "mongodb";
+import { randomBytes } from "crypto";
+import {
+  bsonSerializer,
+  checkEncryptionOptions,
+  decodeDocument,
+  encodeDocument,
+  hashPid,
+  msgpackSerializer,
+} from "../lib/codec";
+
+// simulates the round trip through the MongoDB collection
+function readBack(document: any) {
+  return BSON.deserialize(BSON.serialize(document));
+}
+
+describe("codec", () => {
+  describe("compression", () => {
+    const packet = {
+      type: 2,
+      data: ["foo", "a".repeat(2000), Buffer.from([1, 2, 3])],
+      nsp: "/",
+    };
+
+    it("compresses the payload above the threshold", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet,
+          opts: { rooms: ["room1"], except: [] },
+        },
+      };
+
+      encodeDocument(document, { compression: { threshold: 1024 } });
+
+      expect(document.compression).to.eql("gzip");
+      expect(document.data.packet).to.be(undefined);
+      expect(document.data.opts).to.eql({ rooms: ["room1"], except: [] });
+
+      const decoded = decodeDocument(readBack(document));
+
+      expect(decoded.compression).to.be(undefined);
+      expect(decoded.data.opts).to.eql({ rooms: ["room1"], except: [] });
+      expect(decoded.data.packet.data[1]).to.eql("a".repeat(2000));
+      expect(Buffer.isBuffer(decoded.data.packet.data[2])).to.be(true);
+    });
+
+    it("does not compress the payload below the threshold", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet: { type: 2, data: ["foo"], nsp: "/" },
+        },
+      };
+
+      encodeDocument(document, { compression: { threshold: 1024 } });
+
+      expect(document.compression).to.be(undefined);
+      expect(document.data.packet.data).to.eql(["foo"]);
+    });
+
+    ["deflate", "brotli"].forEach((algorithm: any) => {
+      it(`supports the ${algorithm} algorithm`, () => {
+        const document: any = {
+          type: 13,
+          data: { pid: "abc", sid: "def", rooms: ["room1"], data: packet },
+        };
+
+        encodeDocument(document, { compression: { algorithm, threshold: 0 } });
+
+        expect(document.compression).to.eql(algorithm);
+        expect(document.data.pid).to.eql("abc");
+
+        const decoded = decodeDocument(readBack(document));
+
+        expect(decoded.data.sid).to.eql("def");
+        expect(decoded.data.rooms).to.eql(["room1"]);
+      });
+    });
+
+    it("leaves the documents without compression untouched", () => {
+      const document = { type: 2 };
+
+      expect(decodeDocument(document)).to.be(document);
+    });
+  });
+
+  describe("serializer", () => {
+    const date = new Date("2025-01-01T00:00:00Z");
+
+    it("encodes the payload with the BSON serializer", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet: {
+            type: 2,
+            data: ["foo", date, BigInt(42), Buffer.from([1, 2])],
+          },
+          opts: { rooms: [], except: [] },
+        },
+      };
+
+      encodeDocument(document, { serializer: bsonSerializer });
+
+      expect(document.serializer).to.eql("bson");
+      expect(document.data.opts).to.eql({ rooms: [], except: [] });
+
+      const decoded = decodeDocument(readBack(document));
+
+      expect(decoded.serializer).to.be(undefined);
+      const [foo, decodedDate, bigint, buffer] = decoded.data.packet.data;
+      expect(foo).to.eql("foo");
+      expect(decodedDate).to.be.a(Date);
+      expect(decodedDate.getTime()).to.eql(date.getTime());
+      expect(bigint).to.be(BigInt(42));
+      expect(Buffer.isBuffer(buffer)).to.be(true);
+    });
+
+    it("encodes the payload with the msgpack serializer", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet: {
+            type: 2,
+            data: [
+              "foo",
+              date,
+              BigInt(42),
+              new Map([["a", 1]]),
+              Buffer.from([1, 2]),
+            ],
+          },
+        },
+      };
+
+      encodeDocument(document, { serializer: msgpackSerializer });
+
+      expect(document.serializer).to.eql("msgpack");
+
+      const decoded = decodeDocument(readBack(document));
+
+      const [foo, decodedDate, bigint, map, buffer] = decoded.data.packet.data;
+      expect(foo).to.eql("foo");
+      expect(decodedDate.getTime()).to.eql(date.getTime());
+      expect(bigint).to.be(BigInt(42));
+      expect(map).to.be.a(Map);
+      expect(map.get("a")).to.eql(1);
+      expect(Buffer.isBuffer(buffer)).to.be(true);
+    });
+
+    it("combines the serializer and the compression", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet: { type: 2, data: ["a".repeat(2000)] },
+        },
+      };
+
+      encodeDocument(document, {
+        serializer: msgpackSerializer,
+        compression: { threshold: 1024 },
+      });
+
+      expect(document.serializer).to.eql("msgpack");
+      expect(document.compression).to.eql("gzip");
+
+      const decoded = decodeDocument(readBack(document));
+
+      expect(decoded.data.packet.data).to.eql(["a".repeat(2000)]);
+    });
+
+    it("uses a custom serializer", () => {
+      const serializer = {
+        name: "json",
+        encode: (data: any) => Buffer.from(JSON.stringify(data)),
+        decode: (buffer: Buffer) => JSON.parse(buffer.toString()),
+      };
+
+      const document: any = {
+        type: 9,
+        data: { packet: ["hello", "world"] },
+      };
+
+      encodeDocument(document, { serializer });
+
+      expect(() => decodeDocument(readBack(document))).to.throwError(
+        /unknown serializer: json/
+      );
+
+      const decoded = decodeDocument(readBack(document), { serializer });
+
+      expect(decoded.data.packet).to.eql(["hello", "world"]);
+    });
+  });
+
+  describe("encryption", () => {
+    const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+    const pidHashKey = randomBytes(32);
+
+    it("encrypts the payload", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet: { type: 2, data: ["secret", Buffer.from([1, 2, 3])] },
+          opts: { rooms: ["room1"], except: [] },
+        },
+      };
+
+      encodeDocument(document, {
+        encryption: { keys, currentKeyId: "k1", pidHashKey },
+      });
+
+      expect(document.keyId).to.eql("k1");
+      expect(document.data.packet).to.be(undefined);
+      expect(document.data.opts).to.eql({ rooms: ["room1"], except: [] });
+      expect(document.data.encoded.buffer.toString()).not.to.contain("secret");
+
+      const decoded = decodeDocument(readBack(document), {
+        encryption: { keys, currentKeyId: "k2", pidHashKey },
+      });
+
+      expect(decoded.keyId).to.be(undefined);
+      expect(decoded.data.opts).to.eql({ rooms: ["room1"], except: [] });
+      expect(decoded.data.packet.data[0]).to.eql("secret");
+      expect(Buffer.isBuffer(decoded.data.packet.data[1])).to.be(true);
+    });
+
+    it("combines the encryption, the serializer and the compression", () => {
+      const document: any = {
+        type: 3,
+        data: {
+          packet: { type: 2, data: ["a".repeat(2000)] },
+        },
+      };
+      const opts = {
+        serializer: msgpackSerializer,
+        compression: { threshold: 1024 },
+        encryption: { keys, currentKeyId: "k2", pidHashKey },
+      };
+
+      encodeDocument(document, opts);
+
+      expect(document.serializer).to.eql("msgpack");
+      expect(document.compression).to.eql("gzip");
+      expect(document.keyId).to.eql("k2");
+
+      const decoded = decodeDocument(readBack(document), opts);
+
+      expect(decoded.data.packet.data).to.eql(["a".repeat(2000)]);
+    });
+
+    it("fails to decrypt with an unknown or invalid key", () => {
+      const document: any = {
+        type: 9,
+        data: { packet: ["hello"] },
+      };
+
+      encodeDocument(document, {
+        encryption: { keys, currentKeyId: "k1", pidHashKey },
+      });
+
+      expect(() => decodeDocument(readBack(document))).to.throwError(
+        /unknown encryption key: k1/
+      );
+
+      expect(() =>
+        decodeDocument(readBack(document), {
+          encryption: { keys: { k1: keys.k2 }, currentKeyId: "k1", pidHashKey },
+        })
+      ).to.throwError();
+    });
+
+    it("hashes the private session ID", () => {
+      const encryption = { keys, currentKeyId: "k1", pidHashKey };
+      const document: any = {
+        type: 13,
+        data: { pid: "abc", sid: "def", rooms: ["room1"] },
+      };
+
+      encodeDocument(document, { encryption });
+
+      expect(document.data.pid).to.eql(hashPid("abc", { encryption }));
+      expect(document.data.pid).not.to.eql("abc");
+      expect(document.data.sid).to.be(undefined);
+
+      // the hash does not depend on the current key
+      expect(
+        hashPid("abc", { encryption: { ...encryption, currentKeyId: "k2" } })
+      ).to.eql(document.data.pid);
+
+      const decoded = decodeDocument(readBack(document), { encryption });
+
+      expect(decoded.data).to.eql({
+        pid: "abc",
+        sid: "def",
+        rooms: ["room1"],
+      });
+    });
+
+    it("checks the encryption options", () => {
+      expect(() =>
+        checkEncryptionOptions({ keys, currentKeyId: "k3", pidHashKey })
+      ).to.throwError(/unknown encryption key: k3/);
+
+      expect(() =>
+        checkEncryptionOptions({
+          keys: { k1: randomBytes(16) },
+          currentKeyId: "k1",
+          pidHashKey,
+        })
+      ).to.throwError(/invalid encryption key: k1/);
+
+      expect(() =>
+        checkEncryptionOptions({
+          keys,
+          currentKeyId: "k1",
+          pidHashKey: randomBytes(16),
+        })
+      ).to.throwError(/invalid private session ID hash key/);
+    });
+  });
+});
@@ -3,7 +3,8 @@ import { Server } from "socket.io";
 import expect = require("expect.js");
 import { io as ioc } from "socket.io-client";
 import { MongoClient } from "mongodb";
-import { createAdapter } from "../lib";
+import { randomBytes } from "crypto";
+import { createAdapter, MongoAdapter } from "../lib";
 import { AddressInfo } from "net";
 
 const NODES_COUNT = 3;
@@ -138,6 +139,53 @@ describe("connection state recovery", () => {
       });
     });
 
+    it("should not restore the packets broadcast to other nodes", (done) => {
+      const socket = ioc(`http://localhost:${ports[0]}`, {
+        reconnectionDelay: 20,
+      });
+
+      servers[0].once("connection", (socket) => {
+        socket.on("disconnect", () => {
+          const adapter = servers[1].of("/").adapter as MongoAdapter;
+          const toNode = (uid: string, val: number) =>
+            adapter.broadcastToNodes(
+              [uid],
+              { type: 2, data: ["myEvent", val], nsp: "/" },
+              { rooms: new Set(), except: new Set() }
+            );
+
+          // only the second packet targets the node which was serving the socket
+          toNode((servers[2].of("/").adapter as MongoAdapter).uid, 1);
+          toNode((servers[0].of("/").adapter as MongoAdapter).uid, 2);
+        });
+      });
+
+      socket.once("connect", () => {
+        servers[1].emit("init");
+      });
+
+      socket.on("init", () => {
+        socket.io.engine.close();
+
+        socket.on("connect", () => {
+          expect(socket.recovered).to.eql(true);
+
+          setTimeout(() => {
+            expect(events).to.eql([2]);
+
+            socket.disconnect();
+            done();
+          }, 50);
+        });
+      });
+
+      const events: number[] = [];
+
+      socket.on("myEvent", (val) => {
+        events.push(val);
+      });
+    });
+
     it("should restore the session only once", (done) => {
       const socket = ioc(`http://localhost:${ports[0]}`, {
         reconnectionDelay: 20,
@@ -418,4 +466,329 @@ describe("connection state recovery", () => {
       });
     });
   });
+
+  describe("with a separate session collection", () => {
+    let servers: Server[], ports: number[], mongoClient: MongoClient;
+
+    beforeEach(async () => {
+      servers = [];
+      ports = [];
+
+      mongoClient = new MongoClient(
+        "mongodb://localhost:27017/?replicaSet=rs0&directConnection=true"
+      );
+      await mongoClient.connect();
+
+      try {
+        await mongoClient.db("test").createCollection("events-capped", {
+          capped: true,
+          size: 1e6,
+        });
+      } catch (e) {
+        // collection already exists
+      }
+
+      const collection = mongoClient.db("test").collection("events-capped");
+      const sessionCollection = mongoClient.db("test").collection("sessions");
+
+      await sessionCollection.createIndex(
+        { createdAt: 1 },
+        { expireAfterSeconds: 3600, background: true }
+      );
+
+      return new Promise((resolve) => {
+        for (let i = 1; i <= NODES_COUNT; i++) {
+          const httpServer = createServer();
+          const io = new Server(httpServer, {
+            pingInterval: 1500,
+            pingTimeout: 1600,
+            connectionStateRecovery: {
+              maxDisconnectionDuration: 5000,
+            },
+            adapter: createAdapter(collection, {
+              sessionCollection,
+            }),
+          });
+          httpServer.listen(async () => {
+            const port = (httpServer.address() as AddressInfo).port;
+
+            servers.push(io);
+            ports.push(port);
+
+            if (servers.length === NODES_COUNT) {
+              resolve();
+            }
+          });
+        }
+      });
+    });
+
+    afterEach(async () => {
+      servers.forEach((server) => server.close());
+      await mongoClient.close();
+    });
+
+    it("should restore the session", (done) => {
+      const socket = ioc(`http://localhost:${ports[0]}`, {
+        reconnectionDelay: 20,
+      });
+
+      let initialId: string;
+
+      socket.once("connect", () => {
+        expect(socket.recovered).to.eql(false);
+        initialId = socket.id;
+
+        servers[0].emit("init");
+      });
+
+      socket.on("init", () => {
+        // under the hood, the client saves the offset of this packet, so now we force the reconnection
+        socket.io.engine.close();
+
+        socket.on("connect", () => {
+          expect(socket.recovered).to.eql(true);
+          expect(socket.id).to.eql(initialId);
+
+          socket.disconnect();
+          done();
+        });
+      });
+    });
+
+    it("should not store the session in the events collection", (done) => {
+      const socket = ioc(`http://localhost:${ports[0]}`, {
+        reconnectionDelay: 20,
+      });
+
+      socket.once("connect", () => {
+        servers[0].emit("init");
+      });
+
+      socket.once("init", () => {
+        // @ts-ignore
+        const pid = socket._pid;
+
+        socket.io.engine.close();
+
+        socket.on("connect", async () => {
+          expect(socket.recovered).to.eql(true);
+
+          const eventsCount = await mongoClient
+            .db("test")
+            .collection("events-capped")
+            .countDocuments({ "data.pid": pid });
+
+          expect(eventsCount).to.eql(0);
+
+          // the session is deleted upon restoration
+          const sessionsCount = await mongoClient
+            .db("test")
+            .collection("sessions")
+            .countDocuments({ "data.pid": pid });
+
+          expect(sessionsCount).to.eql(0);
+
+          socket.disconnect();
+          done();
+        });
+      });
+    });
+
+    it("should restore any missed packets", (done) => {
+      const socket = ioc(`http://localhost:${ports[0]}`, {
+        reconnectionDelay: 20,
+      });
+
+      servers[0].once("connection", (socket) => {
+        socket.join("room1");
+
+        socket.on("disconnect", () => {
+          // let's send some packets while the client is disconnected
+          socket.emit("myEvent", 1);
+          servers[0].emit("myEvent", 2);
+          servers[0].to("room1").emit("myEvent", 3);
+
+          // those packets should not be received by the client upon reconnection (room mismatch)
+          servers[0].to("room2").emit("myEvent", 4);
+          servers[0].except("room1").emit("myEvent", 5);
+          servers[0].of("/foo").emit("myEvent", 6);
+        });
+      });
+
+      socket.once("connect", () => {
+        servers[1].emit("init");
+      });
+
+      socket.on("init", () => {
+        // under the hood, the client saves the offset of this packet, so now we force the reconnection
+        socket.io.engine.close();
+
+        socket.on("connect", () => {
+          expect(socket.recovered).to.eql(true);
+
+          setTimeout(() => {
+            expect(events).to.eql([1, 2, 3]);
+
+            socket.disconnect();
+            done();
+          }, 50);
+        });
+      });
+
+      const events: number[] = [];
+
+      socket.on("myEvent", (val) => {
+        events.push(val);
+      });
+    });
+
+    it("should restore the session only once", (done) => {
+      const socket = ioc(`http://localhost:${ports[0]}`, {
+        reconnectionDelay: 20,
+      });
+
+      let initialId: string;
+
+      socket.once("connect", () => {
+        expect(socket.recovered).to.eql(false);
+        initialId = socket.id;
+
+        servers[0].emit("init");
+      });
+
+      socket.once("init", () => {
+        // under the hood, the client saves the offset of this packet, so now we force the reconnection
+        socket.io.engine.close();
+
+        socket.once("connect", () => {
+          expect(socket.recovered).to.eql(true);
+          expect(socket.id).to.eql(initialId);
+
+          // unlike above, manual disconnection is not recoverable
+          socket.disconnect().connect();
+          socket.once("connect", () => {
+            expect(socket.recovered).to.eql(false);
+
+            socket.disconnect();
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  describe("with encryption", () => {
+    let servers: Server[], ports: number[], mongoClient: MongoClient;
+
+    beforeEach(async () => {
+      servers = [];
+      ports = [];
+
+      mongoClient = new MongoClient(
+        "mongodb://localhost:27017/?replicaSet=rs0&directConnection=true"
+      );
+      await mongoClient.connect();
+
+      try {
+        await mongoClient.db("test").createCollection("events-encrypted", {
+          capped: true,
+          size: 1e6,
+        });
+      } catch (e) {
+        // collection already exists
+      }
+
+      const collection = mongoClient.db("test").collection("events-encrypted");
+      const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+      const pidHashKey = randomBytes(32);
+
+      return new Promise((resolve) => {
+        for (let i = 1; i <= NODES_COUNT; i++) {
+          const httpServer = createServer();
+          const io = new Server(httpServer, {
+            pingInterval: 1500,
+            pingTimeout: 1600,
+            connectionStateRecovery: {
+              maxDisconnectionDuration: 5000,
+            },
+            adapter: createAdapter(collection, {
+              // the rotation is in progress, the nodes encrypt with different keys
+              encryption: {
+                keys,
+                currentKeyId: i === 1 ? "k1" : "k2",
+                pidHashKey,
+              },
+            }),
+          });
+          httpServer.listen(async () => {
+            const port = (httpServer.address() as AddressInfo).port;
+
+            servers.push(io);
+            ports.push(port);
+
+            if (servers.length === NODES_COUNT) {
+              resolve();
+            }
+          });
+        }
+      });
+    });
+
+    afterEach(async () => {
+      servers.forEach((server) => server.close());
+      await mongoClient.close();
+    });
+
+    it("should restore any missed packets", (done) => {
+      const socket = ioc(`http://localhost:${ports[0]}`, {
+        reconnectionDelay: 20,
+      });
+
+      servers[0].once("connection", (socket) => {
+        socket.join("room1");
+
+        socket.on("disconnect", () => {
+          servers[0].to("room1").emit("myEvent", "secret1");
+          servers[1].to("room1").emit("myEvent", "secret2");
+          servers[1].to("room2").emit("myEvent", "secret3");
+        });
+      });
+
+      socket.once("connect", () => {
+        servers[1].emit("init");
+      });
+
+      socket.on("init", () => {
+        socket.io.engine.close();
+
+        socket.on("connect", () => {
+          expect(socket.recovered).to.eql(true);
+
+          setTimeout(async () => {
+            expect(events).to.eql(["secret1", "secret2"]);
+
+            // the last broadcast of the second node (type 3 is BROADCAST)
+            const document = await mongoClient
+              .db("test")
+              .collection("events-encrypted")
+              .findOne({ type: 3, keyId: "k2" }, { sort: { _id: -1 } });
+
+            expect(document!.data.packet).to.be(undefined);
+            expect(document!.data.opts.rooms).to.be.an("array");
+            expect(JSON.stringify(document)).not.to.contain("secret");
+
+            socket.disconnect();
+            done();
+          }, 50);
+        });
+      });
+
+      const events: string[] = [];
+
+      socket.on("myEvent", (val) => {
+        events.push(val);
+      });
+    });
+  });
 });
@@ -2,7 +2,13 @@ import { createServer } from "http";
 import { Server, Socket as ServerSocket } from "socket.io";
 import { io as ioc, Socket as ClientSocket } from "socket.io-client";
 import expect = require("expect.js");
-import { createAdapter, MongoAdapter } from "../lib";
+import {
+  createAdapter,
+  ensureCollection,
+  MongoAdapter,
+  MongoResumeTokenStore,
+  PartialResponses,
+} from "../lib";
 import type { AddressInfo } from "net";
 import { MongoClient } from "mongodb";
 import { times, sleep } from "./util";
@@ -235,6 +241,62 @@ describe("@socket.io/mongodb-adapter", () => {
       });
     });
 
+    it("ignores the broadcasts without local recipient", async () => {
+      servers.forEach((server) => {
+        (server.of("/").adapter as MongoAdapter).filterBroadcastsByRoom = true;
+      });
+      const adapter = servers[2].of("/").adapter;
+      let applyCount = 0;
+      // @ts-ignore
+      const apply = adapter.apply;
+      // @ts-ignore
+      adapter.apply = (...args) => {
+        applyCount++;
+        return apply.apply(adapter, args);
+      };
+
+      serverSockets[1].join("room1");
+
+      clientSockets[1].on("test", (cb) => cb(2));
+      clientSockets[2].on("test", () => expect().fail());
+
+      const responses = await servers[0]
+        .to("room1")
+        .timeout(500)
+        .emitWithAck("test");
+
+      expect(responses).to.eql([2]);
+      expect(applyCount).to.eql(0);
+
+      servers[0].emit("test2");
+
+      await sleep(100);
+
+      // broadcast to all sockets
+      expect(applyCount).to.eql(1);
+    });
+
+    it("broadcasts to the clients of the given nodes only", (done) => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      const uids = [
+        adapter.uid,
+        (servers[2].of("/").adapter as MongoAdapter).uid,
+      ];
+      const partialDone = times(2, done);
+
+      clientSockets[0].on("test", partialDone);
+      clientSockets[1].on("test", () => {
+        done(new Error("should not happen"));
+      });
+      clientSockets[2].on("test", partialDone);
+
+      adapter.broadcastToNodes(
+        uids,
+        { type: 2, data: ["test"], nsp: "/" },
+        { rooms: new Set(), except: new Set() }
+      );
+    });
+
     it("broadcasts with a single acknowledgement (local)", async () => {
       clientSockets[0].on("test", () => expect().fail());
       clientSockets[1].on("test", (cb) => cb(2));
@@ -372,6 +434,50 @@ describe("@socket.io/mongodb-adapter", () => {
       expect(remoteSocket.rooms.size).to.eql(1);
     });
 
+    it("returns the socket instances received so far upon timeout", async () => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      adapter.requestsTimeout = 200;
+      adapter.fetchSocketsPartialResults = true;
+
+      const silentAdapter = servers[2].of("/").adapter as MongoAdapter;
+      silentAdapter.onEvent = async () => {};
+
+      const sockets = await adapter.fetchSockets({
+        rooms: new Set(),
+        except: new Set(),
+      });
+
+      expect(sockets).to.have.length(2);
+      expect((sockets as PartialResponses<any>).respondedNodes).to.eql([
+        (servers[1].of("/").adapter as MongoAdapter).uid,
+      ]);
+      expect((sockets as PartialResponses<any>).missingNodes).to.eql([
+        silentAdapter.uid,
+      ]);
+    });
+
+    it("returns only the requested attributes of the remote sockets", async () => {
+      serverSockets[1].data = { userId: 42, token: "secret" };
+      (servers[1].of("/").adapter as MongoAdapter).redactedFields = [
+        "handshake.auth",
+      ];
+
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      const sockets = await adapter.fetchSockets(
+        {
+          rooms: new Set([serverSockets[1].id]),
+          except: new Set(),
+        },
+        { handshake: ["address", "auth"], data: ["userId"] }
+      );
+
+      expect(sockets.length).to.eql(1);
+      expect(sockets[0].handshake).to.eql({
+        address: serverSockets[1].handshake.address,
+      });
+      expect(sockets[0].data).to.eql({ userId: 42 });
+    });
+
     it("returns only local socket instances", async () => {
       const sockets = await servers[0].local.fetchSockets();
 
@@ -379,6 +485,91 @@ describe("@socket.io/mongodb-adapter", () => {
     });
   });
 
+  describe("socketsCount", () => {
+    it("returns the number of sockets across the cluster", async () => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+
+      expect(await adapter.socketsCount()).to.eql(3);
+    });
+
+    it("returns the number of sockets in a room", async () => {
+      serverSockets[0].join("room1");
+      serverSockets[2].join("room1");
+      serverSockets[2].join("room2");
+
+      const adapter = servers[1].of("/").adapter as MongoAdapter;
+
+      expect(await adapter.roomSize("room1")).to.eql(2);
+      expect(await adapter.roomSize("room2")).to.eql(1);
+      expect(await adapter.roomSize("room3")).to.eql(0);
+    });
+  });
+
+  describe("allRooms", () => {
+    it("returns all the rooms across the cluster", async () => {
+      serverSockets[0].join("room1");
+      serverSockets[1].join(["room1", "room2"]);
+      serverSockets[2].join("room3");
+
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      const rooms = await adapter.allRooms();
+
+      expect([...rooms].sort()).to.eql(["room1", "room2", "room3"]);
+    });
+  });
+
+  describe("remote socket operations", () => {
+    it("makes a remote socket join and leave a room", async () => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+
+      await adapter.remoteJoin(serverSockets[1].id, ["room1", "room2"]);
+
+      expect(serverSockets[1].rooms.has("room1")).to.be(true);
+      expect(serverSockets[1].rooms.has("room2")).to.be(true);
+
+      await adapter.remoteLeave(serverSockets[1].id, "room1");
+
+      expect(serverSockets[1].rooms.has("room1")).to.be(false);
+    });
+
+    it("updates the data of a remote socket", async () => {
+      serverSockets[2].data = { userId: 42 };
+
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+
+      await adapter.remoteUpdateData(serverSockets[2].id, { status: "away" });
+
+      expect(serverSockets[2].data).to.eql({ userId: 42, status: "away" });
+    });
+
+    it("emits an event to a remote socket and waits for its acknowledgement", async () => {
+      clientSockets[1].on("double", (value, cb) => cb(value * 2));
+
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      const response = await adapter.remoteEmitWithAck(
+        serverSockets[1].id,
+        "double",
+        21
+      );
+
+      expect(response).to.eql(42);
+    });
+
+    it("rejects when the socket is not found", async () => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      adapter.requestsTimeout = 200;
+
+      try {
+        await adapter.remoteJoin("unknown", "room1");
+        expect().fail();
+      } catch (e) {
+        expect((e as Error).message).to.eql(
+          "socket unknown was not found in the cluster"
+        );
+      }
+    });
+  });
+
   describe("serverSideEmit", () => {
     it("sends an event to other server instances", (done) => {
       const partialDone = times(2, done);
@@ -423,6 +614,59 @@ describe("@socket.io/mongodb-adapter", () => {
       });
     });
 
+    it("sends an event and returns partial results if one server is down", (done) => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      adapter.heartbeatTimeout = 500;
+      adapter.livenessCheckInterval = 100;
+
+      const start = Date.now();
+
+      servers[0].serverSideEmit("hello", (err: Error, response: any) => {
+        expect(err).to.be(null);
+        expect(response).to.contain(2);
+        expect(response.missingNodes).to.eql([
+          (servers[2].of("/").adapter as MongoAdapter).uid,
+        ]);
+        expect(Date.now() - start).to.be.lessThan(1000);
+        done();
+      });
+
+      servers[1].on("hello", (cb) => {
+        cb(2);
+      });
+
+      servers[2].on("hello", () => {
+        // no response and no heartbeat
+      });
+    });
+
+    it("sends an event to the given nodes only", (done) => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      const uid = (servers[2].of("/").adapter as MongoAdapter).uid;
+
+      servers[1].on("snapshot", () => {
+        done(new Error("should not happen"));
+      });
+
+      servers[2].on("snapshot", (arg1, cb) => {
+        expect(arg1).to.eql("room1");
+        cb(2);
+      });
+
+      adapter.serverSideEmitToNodes(
+        [uid],
+        [
+          "snapshot",
+          "room1",
+          (err: Error, responses: any[]) => {
+            expect(err).to.be(null);
+            expect(responses).to.eql([2]);
+            done();
+          },
+        ]
+      );
+    });
+
     it("sends an event but timeout if one server does not respond", (done) => {
       (servers[0].of("/").adapter as MongoAdapter).requestsTimeout = 200;
 
@@ -449,12 +693,534 @@ describe("@socket.io/mongodb-adapter", () => {
     });
   });
 
+  describe("cluster membership", () => {
+    it("returns the list of nodes with their metadata", () => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      const nodes = adapter.getNodes();
+
+      expect(nodes).to.have.length(3);
+      expect(nodes[0].uid).to.eql(adapter.uid);
+      expect(nodes[0].metadata!.pid).to.eql(process.pid);
+      expect(nodes[0].metadata!.namespaces).to.eql(["/"]);
+      expect(nodes[0].metadata!.socketsCount).to.eql(1);
+      expect(nodes[0].metadata!.version).to.be.a("string");
+    });
+
+    it("emits nodeLeft and nodeJoined events", (done) => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      adapter.heartbeatTimeout = 100;
+
+      const leftNodes: string[] = [];
+
+      adapter.on("nodeLeft", (node) => {
+        leftNodes.push(node.uid);
+      });
+
+      adapter.on("nodeJoined", (node) => {
+        expect(leftNodes).to.have.length(2);
+        expect(leftNodes).to.contain(node.uid);
+        expect(adapter.getNodes()).to.have.length(2);
+        done();
+      });
+
+      setTimeout(() => {
+        expect(adapter.getNodes()).to.have.length(1);
+
+        servers[1].emit("ping");
+      }, 200);
+    });
+
+    it("keeps counting a node which only answers the requests of another node", async () => {
+      const adapters = servers.map(
+        (server) => server.of("/").adapter as MongoAdapter
+      );
+      adapters[1].heartbeatInterval = 100;
+      adapters[2].heartbeatInterval = 100;
+      adapters[2].heartbeatTimeout = 300;
+
+      // apply the new heartbeat interval
+      servers[1].emit("ping");
+      servers[2].emit("ping");
+
+      // the responses of the second node are only seen by the first node
+      for (let i = 0; i < 20; i++) {
+        await servers[0].fetchSockets();
+        await sleep(50);
+      }
+
+      expect(adapters[2].getNodes()).to.have.length(3);
+      expect(await adapters[2].serverCount()).to.eql(3);
+    });
+  });
+
+  describe("close", () => {
+    it("removes the node from the cluster without waiting for the heartbeat timeout", async () => {
+      const adapter = servers[0].of("/").adapter as MongoAdapter;
+      adapter.requestsTimeout = 1000;
+
+      servers[2].close();
+
+      await sleep(200);
+
+      expect(await adapter.serverCount()).to.eql(2);
+
+      const sockets = await servers[0].fetchSockets();
+      expect(sockets).to.have.length(2);
+    });
+
+    it("completes the pending requests which were waiting for the node", (done) => {
+      servers[0].serverSideEmit("hello", (err: Error, response: any) => {
+        expect(err).to.be(null);
+        expect(response).to.eql([2]);
+        done();
+      });
+
+      servers[1].on("hello", (cb) => {
+        cb(2);
+      });
+
+      servers[2].on("hello", () => {
+        // no response, but the node leaves the cluster
+        servers[2].close();
+      });
+    });
+  });
+
+  describe("leader election", () => {
+    function createNodes(key: string) {
+      return [1, 2, 3].map(() => {
+        const io = new Server(createServer());
+        io.adapter(
+          createAdapter(mongoClient.db("test").collection("events"), {
+            leaderElection: {
+              collection: mongoClient.db("test").collection("leases"),
+              key,
+              leaseDuration: 1000,
+            },
+          })
+        );
+        return io;
+      });
+    }
+
+    const adapterOf = (io: Server) => io.of("/").adapter as MongoAdapter;
+
+    it("elects a single leader", async () => {
+      const nodes = createNodes(`lease-${Date.now()}`);
+
+      await sleep(300);
+
+      const leaders = nodes.filter((io) => adapterOf(io).isLeader());
+      expect(leaders.length).to.eql(1);
+      expect(adapterOf(leaders[0]).fencingToken).to.eql(1);
+
+      nodes.forEach((io) => io.close());
+    });
+
+    it("hands over the leadership upon close", async () => {
+      const nodes = createNodes(`lease-${Date.now()}`);
+
+      await sleep(300);
+
+      const leader = nodes.find((io) => adapterOf(io).isLeader())!;
+      const others = nodes.filter((io) => io !== leader);
+
+      const leadershipChange = new Promise<number>((resolve) => {
+        others.forEach((io) => {
+          adapterOf(io).on("leadershipChange", (isLeader, fencingToken) => {
+            if (isLeader) {
+              resolve(fencingToken);
+            }
+          });
+        });
+      });
+
+      leader.close();
+
+      expect(await leadershipChange).to.eql(2);
+
+      others.forEach((io) => io.close());
+    });
+  });
+
+  describe("ensureCollection", () => {
+    it("creates a capped collection with its indexes", async () => {
+      const db = mongoClient.db("test");
+      await db.dropCollection("ensure-capped").catch(() => {});
+
+      const collection = await ensureCollection(db, "ensure-capped", {
+        mode: "capped",
+        size: 1e5,
+      });
+
+      expect(await collection.isCapped()).to.be(true);
+
+      const indexes = await collection.listIndexes().toArray();
+      const names = indexes.map(({ name }) => name);
+      expect(names).to.contain("socket.io-session-pid");
+      expect(names).to.contain("socket.io-missed-packets");
+
+      // idempotent (the size is rounded up by MongoDB)
+      await ensureCollection(db, "ensure-capped", {
+        mode: "capped",
+        size: 1e5,
+      });
+    });
+
+    it("creates a collection with a TTL index", async () => {
+      const db = mongoClient.db("test");
+      await db.dropCollection("ensure-ttl").catch(() => {});
+
+      const collection = await ensureCollection(db, "ensure-ttl", {
+        mode: "ttl",
+        expireAfterSeconds: 60,
+      });
+
+      expect(await collection.isCapped()).to.be(false);
+
+      const indexes = await collection.listIndexes().toArray();
+      const ttlIndex = indexes.find(({ name }) => name === "socket.io-ttl");
+      expect(ttlIndex!.expireAfterSeconds).to.eql(60);
+
+      // idempotent
+      await ensureCollection(db, "ensure-ttl", {
+        mode: "ttl",
+        expireAfterSeconds: 60,
+      });
+    });
+
+    it("reports a mismatch with the existing collection", async () => {
+      const db = mongoClient.db("test");
+      await db.dropCollection("ensure-mismatch").catch(() => {});
+      await ensureCollection(db, "ensure-mismatch", {
+        mode: "ttl",
+        expireAfterSeconds: 60,
+      });
+
+      try {
+        await ensureCollection(db, "ensure-mismatch", {
+          mode: "capped",
+        });
+        expect().fail();
+      } catch (e) {
+        expect((e as Error).message).to.contain("the collection is not capped");
+      }
+
+      try {
+        await ensureCollection(db, "ensure-mismatch", {
+          mode: "ttl",
+          expireAfterSeconds: 120,
+        });
+        expect().fail();
+      } catch (e) {
+        expect((e as Error).message).to.contain(
+          "expires after 60 seconds instead of 120"
+        );
+      }
+    });
+
+    it("creates the collection with the ensureCollection option", async () => {
+      const db = mongoClient.db("test");
+      await db.dropCollection("ensure-option").catch(() => {});
+      const collection = db.collection("ensure-option");
+
+      const io = new Server(createServer());
+      io.adapter(
+        createAdapter(collection, {
+          ensureCollection: {
+            mode: "capped",
+            size: 1e5,
+          },
+        })
+      );
+
+      await sleep(500);
+
+      // the initial heartbeat must not have implicitly created a regular collection
+      expect(await collection.isCapped()).to.be(true);
+      expect(await collection.countDocuments()).to.be.greaterThan(0);
+
+      const names = (await collection.listIndexes().toArray()).map(
+        ({ name }) => name
+      );
+      expect(names).to.contain("socket.io-missed-packets");
+
+      io.close();
+    });
+
+    it("sets up the indexes of the session collection", async () => {
+      const db = mongoClient.db("test");
+      await db.dropCollection("ensure-events").catch(() => {});
+      await db.dropCollection("ensure-sessions").catch(() => {});
+
+      const collection = await ensureCollection(db, "ensure-events", {
+        mode: "capped",
+      });
+      await collection.dropIndex("socket.io-session-pid");
+      const sessionCollection = db.collection("ensure-sessions");
+
+      const adapter = createAdapter(collection, {
+        sessionCollection,
+        ensureCollection: {
+          mode: "capped",
+          expireAfterSeconds: 60,
+        },
+      });
+
+      await sleep(500);
+
+      const names = (await collection.listIndexes().toArray()).map(
+        ({ name }) => name
+      );
+      expect(names).to.contain("socket.io-missed-packets");
+      expect(names).not.to.contain("socket.io-session-pid");
+
+      const sessionIndexes = await sessionCollection.listIndexes().toArray();
+      const ttlIndex = sessionIndexes.find(
+        ({ name }) => name === "socket.io-ttl"
+      );
+      expect(ttlIndex!.expireAfterSeconds).to.eql(60);
+      expect(sessionIndexes.map(({ name }) => name)).to.contain(
+        "socket.io-session-pid"
+      );
+
+      await adapter.changeStream.close();
+    });
+  });
+
+  describe("multiple collections", () => {
+    it("routes the namespaces to different collections", async () => {
+      const db = mongoClient.db("test");
+      const defaultCollection = db.collection("events");
+      const ordersCollection = db.collection("events-orders");
+      const router = (nsp: string) =>
+        nsp === "/orders" ? ordersCollection : defaultCollection;
+
+      const io1 = new Server(createServer());
+      const io2 = new Server(createServer());
+      const factory = createAdapter(router);
+      io1.adapter(factory);
+      io2.adapter(createAdapter(router));
+
+      io1.of("/orders");
+      io2.of("/orders");
+
+      expect(factory.changeStreams.size).to.eql(2);
+
+      await sleep(200);
+
+      await new Promise<void>((resolve) => {
+        io2.of("/orders").on("hello", (arg) => {
+          expect(arg).to.eql(1);
+          resolve();
+        });
+
+        io1.of("/orders").serverSideEmit("hello", 1);
+      });
+
+      expect(
+        await ordersCollection.countDocuments({ nsp: "/orders" })
+      ).to.be.greaterThan(0);
+      expect(await defaultCollection.countDocuments({ nsp: "/orders" })).to.eql(
+        0
+      );
+
+      io1.close();
+      io2.close();
+    });
+  });
+
   it("should not throw when receiving a drop event", async () => {
     await mongoClient.db("test").dropCollection("events");
 
     await sleep(100);
   });
 
+  describe("change stream", () => {
+    it("exposes the status of the change stream", async () => {
+      const factory = createAdapter(
+        mongoClient.db("test").collection("events")
+      );
+      const io = new Server(createServer());
+      io.adapter(factory);
+
+      expect(factory.changeStream.status).to.eql("connecting");
+
+      await sleep(200);
+
+      const health = factory.changeStream.healthCheck();
+      expect(health.healthy).to.be(true);
+      expect(health.status).to.eql("connected");
+
+      servers[0].emit("ping");
+
+      await sleep(100);
+
+      expect(factory.changeStream.lastEventAt).to.be.a(Date);
+      expect(factory.changeStream.lastResumeToken).to.be.ok();
+
+      io.close();
+
+      expect(factory.changeStream.status).to.eql("closed");
+      expect(factory.changeStream.healthCheck().healthy).to.be(false);
+    });
+
+    it("emits an event when the change stream is resumed", (done) => {
+      const factory = createAdapter(
+        mongoClient.db("test").collection("events"),
+        {
+          reconnectionDelay: 100,
+          reconnectionDelayMax: 200,
+        }
+      );
+      const io = new Server(createServer());
+      io.adapter(factory);
+
+      factory.changeStream.on("changeStreamResumed", () => {
+        expect(factory.changeStream.status).to.eql("connected");
+        expect(factory.changeStream.reconnections).to.eql(1);
+        io.close();
+        done();
+      });
+
+      setTimeout(async () => {
+        await mongoClient.close(true);
+
+        expect(factory.changeStream.status).to.eql("reconnecting");
+        expect(factory.changeStream.healthCheck().healthy).to.be(false);
+
+        await mongoClient.connect();
+      }, 200);
+    });
+
+    it("does not miss the events of a namespace created before the initialization of the change stream", async () => {
+      const factory = createAdapter(
+        mongoClient.db("test").collection("events")
+      );
+      const io = new Server(createServer());
+      io.adapter(factory);
+
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // the change stream is still connecting
+      expect(factory.changeStream.status).to.eql("connecting");
+
+      const events: number[] = [];
+      io.of("/late").on("hello", (val) => events.push(val));
+
+      servers[0].of("/late").serverSideEmit("hello", 1);
+
+      await sleep(500);
+
+      expect(events).to.eql([1]);
+
+      io.close();
+    });
+
+    it("receives only the responses to its own requests", async () => {
+      const io = new Server(createServer());
+      io.adapter(createAdapter(mongoClient.db("test").collection("events")));
+      const adapter = io.of("/").adapter as MongoAdapter;
+
+      const documents: any[] = [];
+      const onEvent = adapter.onEvent;
+      adapter.onEvent = (event) => {
+        documents.push(event.fullDocument);
+        return onEvent.call(adapter, event);
+      };
+
+      await sleep(200);
+
+      await servers[0].fetchSockets();
+
+      await sleep(100);
+
+      expect(documents.length).to.be.greaterThan(0);
+      documents.forEach((document) => {
+        expect(
+          document.target === undefined || document.target === adapter.uid
+        ).to.be(true);
+      });
+
+      io.close();
+    });
+
+    it("ignores the responses addressed to another node", (done) => {
+      servers[1].on("hello", (cb) => cb(1));
+      servers[2].on("hello", (cb) => cb(1));
+
+      servers[0].serverSideEmit("hello", (err: Error, responses: any[]) => {
+        expect(err).to.be(null);
+        expect(responses).to.eql([1, 1]);
+        done();
+      });
+
+      setTimeout(() => {
+        const adapter = servers[0].of("/").adapter as MongoAdapter;
+        // @ts-ignore
+        const [requestId] = adapter.requests.keys();
+
+        adapter.onEvent({
+          fullDocument: {
+            type: 10, // SERVER_SIDE_EMIT_RESPONSE
+            uid: "another-node",
+            nsp: "/",
+            target: "another-node",
+            data: { requestId, packet: 2 },
+          },
+        });
+      }, 0);
+    });
+
+    it("resumes from the persisted token after a restart", async () => {
+      const collection = mongoClient.db("test").collection("events");
+      const resumeTokenStore = new MongoResumeTokenStore(
+        mongoClient.db("test").collection("resume-tokens")
+      );
+
+      const io1 = new Server(createServer());
+      io1.adapter(
+        createAdapter(collection, {
+          uid: "stable-uid",
+          resumeTokenStore,
+        })
+      );
+
+      await sleep(200);
+
+      servers[0].emit("ping");
+
+      await sleep(100);
+
+      // the token is saved upon close
+      io1.close();
+
+      await sleep(100);
+
+      // published while the node is down
+      servers[0].serverSideEmit("hello", 1);
+
+      await sleep(100);
+
+      const io2 = new Server(createServer());
+
+      return new Promise((resolve) => {
+        io2.on("hello", (arg) => {
+          expect(arg).to.eql(1);
+          io2.close();
+          resolve();
+        });
+
+        io2.adapter(
+          createAdapter(collection, {
+            uid: "stable-uid",
+            resumeTokenStore,
+          })
+        );
+      });
+    });
+  });
+
   it("should resume the change stream upon reconnection", async () => {
     await mongoClient.close(true);
 
@@ -475,4 +1241,10 @@ describe("@socket.io/mongodb-adapter", () => {
   });
 
   import("./connection-state-recovery");
+  import("./codec");
+  import("./batcher");
+  import("./outbox");
+  import("./projection");
+  import("./metrics");
+  import("./tracing");
 });
@@ -0,0 +1,74 @@
+import expect = require("expect.js");
+import { Registry } from "prom-client";
+import { PrometheusMetrics } from "../lib/metrics";
+
+describe("metrics", () => {
+  it("exposes the Prometheus metrics", async () => {
+    const registry = new Registry();
+    const metrics = new PrometheusMetrics({ registry });
+
+    metrics.onPublish("/", "BROADCAST");
+    metrics.onPublish("/", "BROADCAST");
+    metrics.onInsert(12);
+    metrics.onReceive("/", "HEARTBEAT", 30);
+    metrics.onRequestTimeout("/", "FETCH_SOCKETS");
+    metrics.onChangeStreamReconnect();
+    metrics.onSessionRestore("/", true, 3);
+    metrics.onSessionRestore("/", false, 0);
+
+    const output = await registry.metrics();
+
+    expect(output).to.contain(
+      'socket_io_mongo_adapter_documents_published_total{nsp="/",type="BROADCAST"} 2'
+    );
+    expect(output).to.contain(
+      'socket_io_mongo_adapter_documents_received_total{nsp="/",type="HEARTBEAT"} 1'
+    );
+    expect(output).to.contain(
+      "socket_io_mongo_adapter_insert_duration_seconds_sum 0.012"
+    );
+    expect(output).to.contain(
+      "socket_io_mongo_adapter_change_stream_lag_seconds_sum 0.03"
+    );
+    expect(output).to.contain(
+      'socket_io_mongo_adapter_request_timeouts_total{nsp="/",type="FETCH_SOCKETS"} 1'
+    );
+    expect(output).to.contain(
+      "socket_io_mongo_adapter_change_stream_reconnections_total 1"
+    );
+    expect(output).to.contain(
+      'socket_io_mongo_adapter_session_restorations_total{nsp="/",result="success"} 1'
+    );
+    expect(output).to.contain(
+      'socket_io_mongo_adapter_session_restorations_total{nsp="/",result="failure"} 1'
+    );
+    expect(output).to.contain(
+      "socket_io_mongo_adapter_session_missed_packets_sum 3"
+    );
+  });
+
+  it("collects the number of pending requests", async () => {
+    const registry = new Registry();
+    const metrics = new PrometheusMetrics({ registry, prefix: "test_" });
+
+    const untrack = metrics.trackPendingRequests("/", () => ({
+      requests: 2,
+      ackRequests: 1,
+    }));
+
+    let output = await registry.metrics();
+
+    expect(output).to.contain(
+      'test_pending_requests{nsp="/",kind="requests"} 2'
+    );
+    expect(output).to.contain(
+      'test_pending_requests{nsp="/",kind="ack_requests"} 1'
+    );
+
+    untrack();
+
+    output = await registry.metrics();
+
+    expect(output).not.to.contain('test_pending_requests{nsp="/"');
+  });
+});
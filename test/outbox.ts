@@ -0,0 +1,141 @@
+import expect = require("expect.js");
+import { MongoNetworkError, MongoServerError, ObjectId } from "mongodb";
+import { Outbox } from "../lib/outbox";
+import { sleep } from "./util";
+
+describe("publish retry", () => {
+  it("retries the insertion upon a transient error", async () => {
+    let calls = 0;
+    const outbox = new Outbox(
+      (document) => {
+        calls++;
+        if (calls < 3) {
+          return Promise.reject(new MongoNetworkError("connection reset"));
+        }
+        return Promise.resolve(document._id);
+      },
+      { minDelay: 5 }
+    );
+
+    const id = new ObjectId();
+
+    expect((await outbox.write({ _id: id })).equals(id)).to.be(true);
+    expect(calls).to.eql(3);
+  });
+
+  it("does not retry the insertion upon a non-transient error", async () => {
+    let calls = 0;
+    const outbox = new Outbox(() => {
+      calls++;
+      return Promise.reject(
+        new MongoServerError({ message: "validation failed", code: 121 })
+      );
+    });
+
+    try {
+      await outbox.write({});
+      expect().fail();
+    } catch (e) {
+      expect((e as Error).message).to.eql("validation failed");
+      expect(calls).to.eql(1);
+    }
+  });
+
+  it("queues the documents while MongoDB is unavailable", async () => {
+    let isAvailable = false;
+    const inserted: number[] = [];
+    const outbox = new Outbox(
+      (document) => {
+        if (!isAvailable) {
+          return Promise.reject(new MongoNetworkError("connection reset"));
+        }
+        inserted.push(document.index);
+        return Promise.resolve(new ObjectId());
+      },
+      { minDelay: 5, maxOutboxSize: 2 }
+    );
+
+    const first = outbox.write({ index: 0 });
+    await sleep(1);
+    const second = outbox.write({ index: 1 });
+    const third = outbox.write({ index: 2 });
+
+    try {
+      await third;
+      expect().fail();
+    } catch (e) {
+      expect((e as Error).message).to.contain("outbox is full");
+    }
+
+    expect(outbox.size).to.eql(2);
+
+    isAvailable = true;
+
+    await Promise.all([first, second]);
+
+    expect(inserted).to.eql([0, 1]);
+    expect(outbox.size).to.eql(0);
+  });
+
+  it("does not insert the documents twice when they are written during a retry", async () => {
+    let calls = 0;
+    const inserted: number[] = [];
+    const outbox = new Outbox(
+      async (document) => {
+        calls++;
+        if (calls === 1) {
+          throw new MongoNetworkError("connection reset");
+        }
+        // slow insertion, for example while a new primary is elected
+        await sleep(300);
+        inserted.push(document.index);
+        return new ObjectId();
+      },
+      { minDelay: 5 }
+    );
+
+    const first = outbox.write({ index: 0 });
+    await sleep(50);
+    const second = outbox.write({ index: 1 });
+    await sleep(50);
+    const third = outbox.write({ index: 2 });
+
+    await Promise.all([first, second, third]);
+
+    expect(inserted).to.eql([0, 1, 2]);
+    expect(calls).to.eql(4);
+    expect(outbox.size).to.eql(0);
+  });
+
+  it("drops the document once the retries are exhausted", async () => {
+    const outbox = new Outbox(
+      () => Promise.reject(new MongoNetworkError("connection reset")),
+      { minDelay: 1, retries: 2 }
+    );
+
+    try {
+      await outbox.write({});
+      expect().fail();
+    } catch (e) {
+      expect((e as Error).message).to.eql("connection reset");
+    }
+  });
+
+  it("rejects the queued documents upon close", async () => {
+    const outbox = new Outbox(
+      () => Promise.reject(new MongoNetworkError("connection reset")),
+      { minDelay: 1000 }
+    );
+
+    const promise = outbox.write({});
+    await sleep(1);
+    outbox.close();
+
+    try {
+      await promise;
+      expect().fail();
+    } catch (e) {
+      expect((e as Error).message).to.eql("adapter is closed");
+    }
+  });
+});
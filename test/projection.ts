@@ -0,0 +1,63 @@
+import expect = require("expect.js");
+import { projectSocket } from "../lib/projection";
+
+function createSocket() {
+  return {
+    id: "123",
+    handshake: {
+      address: "::1",
+      headers: { "user-agent": "node", cookie: "sid=456" },
+      auth: { token: "secret" },
+    },
+    rooms: ["123", "room1"],
+    data: { userId: 42, session: { token: "secret" } },
+  };
+}
+
+describe("projection", () => {
+  it("returns the socket as is without projection", () => {
+    const socket = createSocket();
+
+    expect(projectSocket(socket, undefined, [])).to.eql(socket);
+  });
+
+  it("includes only the requested attributes", () => {
+    const result = projectSocket(
+      createSocket(),
+      { handshake: ["address", "headers.user-agent", "unknown"], data: [] },
+      []
+    );
+
+    expect(result).to.eql({
+      id: "123",
+      handshake: { address: "::1", headers: { "user-agent": "node" } },
+      rooms: ["123", "room1"],
+      data: {},
+    });
+  });
+
+  it("removes the redacted attributes without modifying the socket", () => {
+    const socket = createSocket();
+    const result = projectSocket(socket, undefined, [
+      "handshake.auth.token",
+      "handshake.headers.cookie",
+      "data.session",
+    ]);
+
+    expect(result.handshake).to.eql({
+      address: "::1",
+      headers: { "user-agent": "node" },
+      auth: {},
+    });
+    expect(result.data).to.eql({ userId: 42 });
+    expect(socket).to.eql(createSocket());
+  });
+
+  it("removes the redacted attributes after the projection", () => {
+    const result = projectSocket(createSocket(), { handshake: ["auth"] }, [
+      "handshake.auth.token",
+    ]);
+
+    expect(result.handshake).to.eql({ auth: {} });
+  });
+});
@@ -0,0 +1,35 @@
+import expect = require("expect.js");
+import { Tracing } from "../lib/tracing";
+
+const TRACEPARENT = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+
+describe("tracing", () => {
+  it("propagates the W3C trace context", () => {
+    const tracing = new Tracing("1.0.0");
+
+    const parent = tracing.extract({
+      traceparent: TRACEPARENT,
+      tracestate: "vendor=value",
+    });
+    // without SDK, the span is non-recording and keeps the context of its parent
+    const span = tracing.startSpan("receive BROADCAST", "CONSUMER", {}, parent);
+
+    expect(tracing.inject(span)).to.eql({
+      traceparent: TRACEPARENT,
+      tracestate: "vendor=value",
+    });
+
+    tracing.end(span);
+  });
+
+  it("ignores an invalid trace context", () => {
+    const tracing = new Tracing("1.0.0");
+
+    const parent = tracing.extract({ traceparent: "invalid" });
+    const span = tracing.startSpan("receive BROADCAST", "CONSUMER", {}, parent);
+
+    expect(tracing.inject(span)).to.be(undefined);
+
+    tracing.end(span, new Error("failure"));
+  });
+});